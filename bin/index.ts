@@ -19,6 +19,8 @@ import path from "path"
 import generateByLLM from "../script/llm/index"
 import logger from "../lib/config/logger"
 import { resolvePath } from "../lib/utils/pathResolver"
+import { checkOASDrift } from "../lib/dsl/generator/commands"
+import { getOutputPath } from "../lib/config/getOutputPath"
 
 const args = process.argv.slice(2)
 const isRootHelp = args.length === 0 || args[0] === "--help" || args[0] === "-h"
@@ -49,6 +51,7 @@ program
         `
 Example:
   itdoc generate -a <appPath>
+  itdoc diff <baselinePath>
 `,
     )
 
@@ -101,6 +104,31 @@ program
         }
     })
 
+program
+    .command("diff")
+    .description(
+        "Compare a generated OpenAPI document with a baseline and exit non-zero on breaking changes.",
+    )
+    .argument("<baseline>", "Path to the baseline OpenAPI document (e.g. a committed oas.json).")
+    .argument(
+        "[current]",
+        "Path to the generated OpenAPI document (default: <itdoc.output>/oas.json).",
+    )
+    .action((baseline: string, current?: string) => {
+        const currentPath = current
+            ? resolvePath(current)
+            : path.resolve(getOutputPath(), "oas.json")
+
+        try {
+            if (!checkOASDrift(resolvePath(baseline), currentPath)) {
+                process.exit(1)
+            }
+        } catch (err) {
+            logger.error(`Spec diff failed: ${(err as Error).message}`)
+            process.exit(1)
+        }
+    })
+
 program.parse(process.argv)
 
 if (!args.length) {
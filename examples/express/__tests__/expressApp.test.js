@@ -9,6 +9,7 @@ describeAPI(
         summary: "회원 가입 API",
         tag: "Auth",
         description: "사용자로 부터 아이디와 패스워드를 받아 회원가입을 수행합니다.",
+        security: "public",
     },
     targetApp,
     (apiDoc) => {
@@ -231,11 +232,12 @@ describeAPI(
                 .header({
                     Authorization: field("인증 토큰", "Bearer 123456"),
                 })
+                .auth("oauth2", ["secret:read"])
                 .res()
                 .status(HttpStatus.OK)
                 .header({
                     "Content-Type": "application/json; charset=utf-8",
-                    "itdoc-custom-Header": "secret-header-value",
+                    "itdoc-custom-Header": field("커스텀 응답 헤더", "secret-header-value"),
                     Authorization: `Bearer ${token}`,
                 })
                 .body({
@@ -584,3 +586,47 @@ describeAPI(
         })
     },
 )
+
+describeAPI(
+    HttpMethod.GET,
+    "/reports/users",
+    {
+        summary: "회원 목록 CSV 내보내기",
+        tag: "Report",
+        description: "회원 목록을 CSV 파일로 내려받습니다.",
+    },
+    app,
+    (apiDoc) => {
+        itDoc("회원 목록을 CSV로 내려받는다.", async () => {
+            await apiDoc
+                .test()
+                .req()
+                .res()
+                .status(HttpStatus.OK)
+                .header({
+                    "Content-Disposition": field("첨부 파일 이름", (value) => {
+                        if (!value.includes("users.csv")) {
+                            throw new Error("Unexpected file name")
+                        }
+                    }),
+                })
+                .text(/^username,name\n/)
+        })
+    },
+)
+
+describeAPI(
+    HttpMethod.GET,
+    "/images/logo",
+    {
+        summary: "로고 이미지 조회",
+        tag: "Image",
+        description: "서비스 로고 이미지를 내려받습니다.",
+    },
+    app,
+    (apiDoc) => {
+        itDoc("로고 이미지를 PNG로 내려받는다.", async () => {
+            await apiDoc.test().req().res().status(HttpStatus.OK).file("image/png")
+        })
+    },
+)
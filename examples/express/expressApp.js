@@ -274,4 +274,20 @@ app.post("/uploads", (req, res) => {
     })
 })
 
+app.get("/reports/users", (req, res) => {
+    res.set("Content-Disposition", 'attachment; filename="users.csv"')
+    return res
+        .status(200)
+        .type("text/csv")
+        .send("username,name\npenekhun,seonghun\nzagabi,hongchul\n")
+})
+
+app.get("/images/logo", (req, res) => {
+    const png = Buffer.from(
+        "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==",
+        "base64",
+    )
+    return res.status(200).type("image/png").send(png)
+})
+
 module.exports = app
@@ -16,6 +16,7 @@
 
 const { execSync } = require("child_process")
 const fs = require("fs")
+const os = require("os")
 const path = require("path")
 const deepEqual = require("fast-deep-equal")
 const { diff } = require("jest-diff")
@@ -23,6 +24,8 @@ const { diff } = require("jest-diff")
 const OUTPUT_DIR = path.join(__dirname, "../output")
 const EXPECT_OAS_DIR = path.join(__dirname, "../expected")
 const OUTPUT_FILENAME = "oas.json"
+const TESTS_DIR = path.join(__dirname, "../__tests__")
+const MOCHA_BIN = path.join(__dirname, "../node_modules/.bin/mocha")
 
 /**
  * <b>NOTE</b>
@@ -78,6 +81,50 @@ const runAndVerifyOas = (cmd) => {
     }
 }
 
+/**
+ * baseline 문서에 있는 경로가 사라지면 mocha 실행이 실패(0이 아닌 종료 코드)해야 합니다.
+ * 설정은 실행 위치의 package.json에서 읽으므로, 임시 디렉터리에 baseline 설정을 두고 실행합니다.
+ */
+const verifyBreakingDriftFailsRun = () => {
+    const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "itdoc-drift-"))
+    try {
+        const { itdoc } = JSON.parse(
+            fs.readFileSync(path.join(__dirname, "../package.json"), "utf8"),
+        )
+        const baseline = JSON.parse(
+            fs.readFileSync(path.join(EXPECT_OAS_DIR, OUTPUT_FILENAME), "utf8"),
+        )
+        baseline.paths["/removed"] = {
+            get: { responses: { 200: { description: "Removed endpoint" } } },
+        }
+        fs.writeFileSync(path.join(workDir, "baseline.json"), JSON.stringify(baseline))
+        fs.writeFileSync(
+            path.join(workDir, "package.json"),
+            JSON.stringify({ private: true, itdoc: { ...itdoc, baseline: "baseline.json" } }),
+        )
+
+        console.log("\n▶ Running: mocha with a baseline that has an extra path")
+        try {
+            execSync(`${MOCHA_BIN} ${TESTS_DIR}`, { cwd: workDir, stdio: "pipe" })
+        } catch (error) {
+            const output = `${error.stdout}${error.stderr}`
+            if (error.status !== 0 && output.includes("[OAS_BREAKING_CHANGE]")) {
+                console.log(`✅ Breaking drift failed the run with exit code ${error.status}`)
+                return
+            }
+            console.error(output)
+            throw new Error("❌ mocha failed for a reason other than the breaking drift!")
+        }
+        throw new Error("❌ mocha exited with 0 although the API contract drifted!")
+    } catch (error) {
+        console.error(error.message || error)
+        process.exitCode = 1
+    } finally {
+        fs.rmSync(workDir, { recursive: true, force: true })
+    }
+}
+
 // RUN
 runAndVerifyOas("pnpm test:jest")
 runAndVerifyOas("pnpm test:mocha")
+verifyBreakingDriftFailsRun()
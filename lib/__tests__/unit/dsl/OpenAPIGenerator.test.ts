@@ -15,9 +15,17 @@
  */
 
 import { assert } from "chai"
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
 import { OpenAPIGenerator } from "../../../dsl/generator/OpenAPIGenerator"
 import { TestResult } from "../../../dsl/generator/types/TestResult"
+import { ParameterObject } from "../../../dsl/generator/types/OpenAPITypes"
 import { HttpMethod } from "../../../dsl/enums"
+import { field, file } from "../../../dsl"
+import type { ApiDocOptions } from "../../../dsl"
+
+type GeneratedSpec = Record<string, any>
 
 describe("OpenAPIGenerator", () => {
     let generator: OpenAPIGenerator
@@ -36,6 +44,12 @@ describe("OpenAPIGenerator", () => {
         Object.defineProperty(OpenAPIGenerator, "instance", { value: null, writable: true })
     })
 
+    /**
+     * Generates the document with its sections loosely typed, so assertions can walk into them.
+     * @returns {GeneratedSpec} Generated OpenAPI document
+     */
+    const generateSpec = (): GeneratedSpec => generator.generateOpenAPISpec()
+
     after(() => {
         Object.defineProperty(OpenAPIGenerator, "getInstance", { value: originalGetInstance })
     })
@@ -55,7 +69,7 @@ describe("OpenAPIGenerator", () => {
             }
 
             generator.collectTestResult(testResult)
-            const spec = generator.generateOpenAPISpec() as any
+            const spec = generateSpec()
 
             assert.isDefined(spec.paths["/test/empty"].get.responses["200"])
             assert.isUndefined(spec.paths["/test/empty"].get.responses["200"].content)
@@ -76,7 +90,7 @@ describe("OpenAPIGenerator", () => {
             }
 
             generator.collectTestResult(testResult)
-            const spec = generator.generateOpenAPISpec() as any
+            const spec = generateSpec()
 
             assert.isDefined(spec.paths["/test/null"].get.responses["200"])
             assert.isUndefined(spec.paths["/test/null"].get.responses["200"].content)
@@ -99,7 +113,7 @@ describe("OpenAPIGenerator", () => {
             }
 
             generator.collectTestResult(testResult)
-            const spec = generator.generateOpenAPISpec() as any
+            const spec = generateSpec()
 
             assert.isDefined(spec.paths["/test/undefined-body"].get.responses["400"])
             assert.isUndefined(spec.paths["/test/undefined-body"].get.responses["400"].content)
@@ -109,7 +123,7 @@ describe("OpenAPIGenerator", () => {
             )
         })
 
-        it("명시적으로 응답 본문이 정의된 에러 응답은 error 객체 구조로 생성되어야 한다", () => {
+        it("명시적으로 응답 본문이 정의된 에러 응답은 실제 응답 본문 구조로 생성되어야 한다", () => {
             const testResult: TestResult = {
                 method: HttpMethod.GET,
                 url: "/test/error",
@@ -123,7 +137,7 @@ describe("OpenAPIGenerator", () => {
             }
 
             generator.collectTestResult(testResult)
-            const spec = generator.generateOpenAPISpec() as any
+            const spec = generateSpec()
 
             assert.isDefined(spec.paths["/test/error"].get.responses["404"])
             assert.isDefined(spec.paths["/test/error"].get.responses["404"].content)
@@ -135,24 +149,47 @@ describe("OpenAPIGenerator", () => {
 
             const content = spec.paths["/test/error"].get.responses["404"].content[contentTypeKey]
             assert.isDefined(content, "content 객체가 존재해야 합니다")
-            assert.isDefined(content.schema, "schema가 존재해야 합니다")
+            assert.hasAllKeys(content.schema.properties, ["message"])
+            assert.notProperty(content.schema.properties, "error")
+            assert.deepEqual(content.examples["존재하지 않는 리소스 요청"].value, {
+                message: "리소스를 찾을 수 없습니다",
+            })
+        })
 
-            if (content.schema.properties && content.schema.properties.error) {
-                assert.isDefined(content.examples, "examples가 존재해야 합니다")
-                const exampleKey = Object.keys(content.examples)[0]
-                assert.isDefined(exampleKey, "example 키가 존재해야 합니다")
-
-                const exampleValue = content.examples[exampleKey].value
-                assert.isDefined(exampleValue, "example 값이 존재해야 합니다")
-
-                assert.isDefined(exampleValue.error, "error 객체가 존재해야 합니다")
-                assert.isDefined(exampleValue.error.message, "error.message가 존재해야 합니다")
-                assert.equal(exampleValue.error.message, "존재하지 않는 리소스 요청")
-            } else {
-                assert.isDefined(content.examples, "examples가 존재해야 합니다")
-                const exampleKey = Object.keys(content.examples)[0]
-                assert.isDefined(content.examples[exampleKey], "example이 존재해야 합니다")
-            }
+        it("application/problem+json 응답은 ProblemDetails 스키마를 참조해야 한다", () => {
+            generator.collectTestResult({
+                method: HttpMethod.GET,
+                url: "/test/problem",
+                options: { tag: "Test" },
+                request: {},
+                response: {
+                    status: 403,
+                    headers: { "content-type": "application/problem+json" },
+                    body: {
+                        type: "https://example.com/probs/out-of-credit",
+                        title: "You do not have enough credit.",
+                        status: 403,
+                        balance: 30,
+                    },
+                },
+            })
+
+            const spec = generateSpec()
+            const content =
+                spec.paths["/test/problem"].get.responses["403"].content["application/problem+json"]
+
+            assert.deepEqual(content.schema.allOf[0], {
+                $ref: "#/components/schemas/ProblemDetails",
+            })
+            assert.hasAllKeys(content.schema.allOf[1].properties, ["balance"])
+            assert.hasAllKeys(spec.components.schemas.ProblemDetails.properties, [
+                "type",
+                "title",
+                "status",
+                "detail",
+                "instance",
+            ])
+            assert.equal(content.examples["Error Response"].value.balance, 30)
         })
 
         it("명시적으로 응답 본문이 정의된 성공 응답은 원본 응답 구조를 유지해야 한다", () => {
@@ -170,7 +207,7 @@ describe("OpenAPIGenerator", () => {
             }
 
             generator.collectTestResult(testResult)
-            const spec = generator.generateOpenAPISpec() as any
+            const spec = generateSpec()
 
             assert.isDefined(spec.paths["/test/success"].get.responses["200"])
             assert.isDefined(spec.paths["/test/success"].get.responses["200"].content)
@@ -225,13 +262,802 @@ describe("OpenAPIGenerator", () => {
 
             generator.collectTestResult(testResult1)
             generator.collectTestResult(testResult2)
-            const spec = generator.generateOpenAPISpec() as any
+            const spec = generateSpec()
 
             assert.isDefined(spec.paths["/test/no-body-responses"].get.responses["400"])
             assert.isUndefined(spec.paths["/test/no-body-responses"].get.responses["400"].content)
         })
     })
 
+    describe("HTTP 메서드별 처리", () => {
+        it("HEAD 응답은 본문이 있더라도 content를 포함하지 않아야 한다", () => {
+            const testResult: TestResult = {
+                method: HttpMethod.HEAD,
+                url: "/test/head",
+                options: { tag: "Test" },
+                request: {},
+                response: {
+                    status: 200,
+                    body: { id: 1 },
+                },
+                testSuiteDescription: "리소스 존재 확인",
+            }
+
+            generator.collectTestResult(testResult)
+            const spec = generateSpec()
+
+            assert.isDefined(spec.paths["/test/head"].head.responses["200"])
+            assert.isUndefined(spec.paths["/test/head"].head.responses["200"].content)
+        })
+
+        it("OPTIONS와 TRACE 요청도 operation으로 생성되어야 한다", () => {
+            const baseResult = {
+                url: "/test/methods",
+                options: { tag: "Test" },
+                request: {},
+                response: { status: 204 },
+            }
+
+            generator.collectTestResult({ ...baseResult, method: HttpMethod.OPTIONS })
+            generator.collectTestResult({ ...baseResult, method: HttpMethod.TRACE })
+            const spec = generateSpec()
+
+            assert.isDefined(spec.paths["/test/methods"].options.responses["204"])
+            assert.isDefined(spec.paths["/test/methods"].trace.responses["204"])
+        })
+    })
+
+    describe("multipart/form-data 요청 본문", () => {
+        it("form 요청은 part별 schema와 encoding을 생성해야 한다", () => {
+            const testResult: TestResult = {
+                method: HttpMethod.POST,
+                url: "/test/upload",
+                options: { tag: "Test" },
+                request: {
+                    form: {
+                        title: field("제목", "여행 사진"),
+                        avatar: file("프로필 이미지", {
+                            buffer: Buffer.from("png"),
+                            contentType: "image/png",
+                        }),
+                    },
+                },
+                response: { status: 201 },
+            }
+
+            generator.collectTestResult(testResult)
+            const spec = generateSpec()
+
+            const mediaType =
+                spec.paths["/test/upload"].post.requestBody.content["multipart/form-data"]
+            assert.deepEqual(mediaType.schema.properties.avatar, {
+                type: "string",
+                format: "binary",
+                description: "프로필 이미지",
+            })
+            assert.equal(mediaType.schema.properties.title.type, "string")
+            assert.deepEqual(mediaType.schema.required, ["title", "avatar"])
+            assert.deepEqual(mediaType.encoding, {
+                title: { contentType: "text/plain" },
+                avatar: { contentType: "image/png" },
+            })
+            assert.deepEqual(mediaType.example, { title: "여행 사진" })
+        })
+    })
+
+    describe("요청 본문 media type", () => {
+        it("contentType이 지정되면 해당 media type으로 요청 본문을 문서화해야 한다", () => {
+            const testResult: TestResult = {
+                method: HttpMethod.POST,
+                url: "/test/login",
+                options: { tag: "Test" },
+                request: {
+                    body: { username: field("아이디", "penekhun") },
+                    contentType: "application/x-www-form-urlencoded",
+                },
+                response: { status: 200 },
+            }
+
+            generator.collectTestResult(testResult)
+            const spec = generateSpec()
+
+            const content = spec.paths["/test/login"].post.requestBody.content
+            assert.deepEqual(Object.keys(content), ["application/x-www-form-urlencoded"])
+            assert.deepEqual(content["application/x-www-form-urlencoded"].example, {
+                username: "penekhun",
+            })
+        })
+
+        it("문자열 요청 본문은 기본적으로 text/plain으로 문서화해야 한다", () => {
+            const testResult: TestResult = {
+                method: HttpMethod.POST,
+                url: "/test/memo",
+                options: { tag: "Test" },
+                request: { body: "hello" },
+                response: { status: 201 },
+            }
+
+            generator.collectTestResult(testResult)
+            const spec = generateSpec()
+
+            const content = spec.paths["/test/memo"].post.requestBody.content
+            assert.equal(content["text/plain"].schema.type, "string")
+            assert.equal(content["text/plain"].example, "hello")
+        })
+    })
+
+    describe("쿠키 처리", () => {
+        it("요청 쿠키는 in: cookie 파라미터로, 응답 쿠키는 Set-Cookie 헤더로 문서화해야 한다", () => {
+            const testResult: TestResult = {
+                method: HttpMethod.POST,
+                url: "/test/session",
+                options: { tag: "Test" },
+                request: {
+                    cookies: { theme: field("화면 테마", "dark", false) },
+                },
+                response: {
+                    status: 204,
+                    headers: {
+                        "set-cookie": [
+                            "session=abc; Max-Age=3600; Path=/; HttpOnly; SameSite=Strict",
+                        ],
+                    },
+                    cookies: {
+                        session: {
+                            description: "세션 쿠키",
+                            httpOnly: true,
+                            sameSite: "Strict",
+                            maxAge: 3600,
+                        },
+                    },
+                },
+            }
+
+            generator.collectTestResult(testResult)
+            const spec = generateSpec()
+
+            const operation = spec.paths["/test/session"].post
+            const cookieParam = operation.parameters.find(
+                (param: ParameterObject) => param.in === "cookie",
+            )
+            assert.equal(cookieParam.name, "theme")
+            assert.equal(cookieParam.description, "화면 테마")
+            assert.equal(cookieParam.example, "dark")
+            assert.isFalse(cookieParam.required)
+            assert.deepEqual(operation.responses["204"].headers, {
+                "Set-Cookie": {
+                    description: "`session`: 세션 쿠키 (HttpOnly; SameSite=Strict; Max-Age=3600)",
+                    schema: { type: "string" },
+                    example: "session=abc; Max-Age=3600; Path=/; HttpOnly; SameSite=Strict",
+                },
+            })
+        })
+    })
+
+    describe("응답 헤더 처리", () => {
+        it("테스트에서 선언한 응답 헤더만 설명과 실제 예시 값으로 문서화해야 한다", () => {
+            const testResult: TestResult = {
+                method: HttpMethod.POST,
+                url: "/test/headers/users",
+                options: { tag: "Test" },
+                request: {},
+                response: {
+                    status: 201,
+                    headers: {
+                        location: "/users/42",
+                        etag: 'W/"v1"',
+                        "x-ratelimit-remaining": "99",
+                        "x-powered-by": "Express",
+                        "content-type": "application/json",
+                    },
+                    expectedHeaders: {
+                        "Content-Type": "application/json",
+                        Location: /^\/users\/\d+$/,
+                        ETag: /^w\/".+"$/i,
+                        "X-RateLimit-Remaining": field("남은 요청 수", () => {}),
+                    },
+                },
+            }
+
+            generator.collectTestResult(testResult)
+            const spec = generateSpec()
+
+            assert.deepEqual(spec.paths["/test/headers/users"].post.responses["201"].headers, {
+                Location: {
+                    schema: { type: "string", pattern: "^\\/users\\/\\d+$" },
+                    example: "/users/42",
+                },
+                ETag: {
+                    schema: { type: "string" },
+                    example: 'W/"v1"',
+                },
+                "X-RateLimit-Remaining": {
+                    description: "남은 요청 수",
+                    schema: { type: "string" },
+                    example: "99",
+                },
+            })
+        })
+    })
+
+    describe("JSON이 아닌 응답 본문", () => {
+        it("텍스트 응답은 응답의 미디어 타입과 문자열 스키마로 문서화해야 한다", () => {
+            generator.collectTestResult({
+                method: HttpMethod.GET,
+                url: "/test/pages/home",
+                options: { tag: "Test" },
+                request: {},
+                response: {
+                    status: 200,
+                    headers: { "content-type": "text/html; charset=utf-8" },
+                    body: "<h1>Home</h1>",
+                },
+            })
+
+            const spec = generateSpec()
+            const content = spec.paths["/test/pages/home"].get.responses["200"].content
+
+            assert.deepEqual(Object.keys(content), ["text/html; charset=utf-8"])
+            assert.equal(content["text/html; charset=utf-8"].schema.type, "string")
+        })
+
+        it("파일 응답은 선언한 미디어 타입과 binary 형식으로 예시 없이 문서화해야 한다", () => {
+            generator.collectTestResult({
+                method: HttpMethod.GET,
+                url: "/test/images/logo",
+                options: { tag: "Test" },
+                request: {},
+                response: {
+                    status: 200,
+                    headers: { "content-type": "image/png" },
+                    file: { contentType: "image/png" },
+                },
+            })
+
+            const spec = generateSpec()
+
+            assert.deepEqual(spec.paths["/test/images/logo"].get.responses["200"].content, {
+                "image/png": { schema: { type: "string", format: "binary" } },
+            })
+        })
+    })
+
+    describe("동일 상태 코드 응답 병합", () => {
+        it("여러 테스트 케이스의 응답 스키마를 합치고 일부에만 있는 필드는 optional이 되어야 한다", () => {
+            const bodies = [
+                { orderId: field("주문 ID", 1), memo: field("메모", "문 앞"), coupon: null },
+                { orderId: field("주문 ID", 2), coupon: "WELCOME", discount: 1000 },
+            ]
+            bodies.forEach((body, index) => {
+                generator.collectTestResult({
+                    method: HttpMethod.GET,
+                    url: "/test/merge/orders",
+                    options: { tag: "Test" },
+                    request: {},
+                    response: { status: 200, body },
+                    testSuiteDescription: index === 0 ? "메모가 있는 주문" : undefined,
+                })
+            })
+
+            const spec = generateSpec()
+            const content = spec.paths["/test/merge/orders"].get.responses["200"].content
+            const { schema, examples } = content[Object.keys(content)[0]]
+
+            assert.deepEqual(schema.required, ["orderId"])
+            assert.hasAllKeys(schema.properties, ["orderId", "memo", "coupon", "discount"])
+            assert.equal(schema.properties.coupon.type, "string")
+            assert.isTrue(schema.properties.coupon.nullable)
+            assert.hasAllKeys(examples, ["메모가 있는 주문", "Success Response"])
+        })
+
+        it("타입이 다른 응답은 oneOf로 합치고 이름 없는 예시도 모두 유지해야 한다", () => {
+            for (const body of [{ result: 1 }, { result: "ok" }, { result: 2 }]) {
+                generator.collectTestResult({
+                    method: HttpMethod.GET,
+                    url: "/test/merge/results",
+                    options: { tag: "Test" },
+                    request: {},
+                    response: { status: 200, body },
+                })
+            }
+
+            const spec = generateSpec()
+            const content = spec.paths["/test/merge/results"].get.responses["200"].content
+            const { schema, examples } = content[Object.keys(content)[0]]
+
+            assert.deepEqual(
+                schema.properties.result.oneOf.map((branch: { type: string }) => branch.type),
+                ["integer", "string"],
+            )
+            assert.deepEqual(Object.keys(examples), [
+                "Success Response",
+                "Success Response (2)",
+                "Success Response (3)",
+            ])
+        })
+    })
+
+    describe("기본 응답", () => {
+        it("기본 응답이 설정되지 않으면 테스트한 상태 코드만 문서화해야 한다", () => {
+            generator.collectTestResult({
+                method: HttpMethod.GET,
+                url: "/test/default-responses/none",
+                options: { tag: "Test" },
+                request: {},
+                response: { status: 200 },
+            })
+
+            const spec = generateSpec()
+
+            assert.hasAllKeys(spec.paths["/test/default-responses/none"].get.responses, ["200"])
+        })
+
+        it("describeAPI에 지정한 기본 응답은 테스트되지 않은 상태 코드만 공용 응답으로 참조해야 한다", () => {
+            for (const status of [200, 400]) {
+                generator.collectTestResult({
+                    method: HttpMethod.GET,
+                    url: "/test/default-responses/custom",
+                    options: { tag: "Test", defaultResponses: [400, 500] },
+                    request: {},
+                    response: { status },
+                })
+            }
+
+            const spec = generateSpec()
+            const responses = spec.paths["/test/default-responses/custom"].get.responses
+
+            assert.hasAllKeys(responses, ["200", "400", "500"])
+            assert.notProperty(responses["400"], "$ref")
+            assert.deepEqual(responses["500"], {
+                $ref: "#/components/responses/InternalServerError",
+            })
+            assert.deepEqual(spec.components.responses.InternalServerError, {
+                description: "500 INTERNAL SERVER ERROR",
+            })
+        })
+    })
+
+    describe("components.schemas", () => {
+        it("field.schema()로 선언한 스키마는 components에 등록되고 $ref로 참조되어야 한다", () => {
+            const user = field.schema("User", {
+                id: field("유저 ID", 1),
+                name: field("유저 이름", "penekhun"),
+            })
+            const cases = [
+                { url: "/test/users/me", key: "user", description: "사용자" },
+                { url: "/test/admins/me", key: "admin", description: "관리자" },
+            ]
+            for (const { url, key, description } of cases) {
+                generator.collectTestResult({
+                    method: HttpMethod.GET,
+                    url,
+                    options: { tag: "Test" },
+                    request: {},
+                    response: { status: 200, body: { [key]: field(description, user) } },
+                })
+            }
+
+            const spec = generateSpec()
+
+            assert.deepEqual(spec.components.schemas.User.required, ["id", "name"])
+            assert.notProperty(spec.components.schemas.User, "x-itdoc-schema-name")
+            for (const { url, key, description } of cases) {
+                const content = spec.paths[url].get.responses["200"].content
+                const schema = content[Object.keys(content)[0]].schema
+                assert.deepEqual(schema.properties[key], {
+                    description,
+                    allOf: [{ $ref: "#/components/schemas/User" }],
+                })
+            }
+        })
+
+        it("field.oneOf()는 discriminator mapping이 있는 oneOf 스키마로 문서화되어야 한다", () => {
+            const card = field.schema("CardPayment", {
+                type: field("결제 수단", "card"),
+                cardNumber: field("카드 번호", "1234"),
+            })
+            const bank = field.schema("BankPayment", {
+                type: field("결제 수단", "bank"),
+                account: field("계좌 번호", "110-1"),
+            })
+            generator.collectTestResult({
+                method: HttpMethod.GET,
+                url: "/test/payments/1",
+                options: { tag: "Test" },
+                request: {},
+                response: {
+                    status: 200,
+                    body: field.oneOf("결제 정보", [card, bank], {
+                        discriminator: "type",
+                    }),
+                },
+            })
+
+            const spec = generateSpec()
+            const content = spec.paths["/test/payments/1"].get.responses["200"].content
+            const schema = content[Object.keys(content)[0]].schema
+
+            assert.deepEqual(schema.oneOf, [
+                { $ref: "#/components/schemas/CardPayment" },
+                { $ref: "#/components/schemas/BankPayment" },
+            ])
+            assert.deepEqual(schema.discriminator, {
+                propertyName: "type",
+                mapping: {
+                    card: "#/components/schemas/CardPayment",
+                    bank: "#/components/schemas/BankPayment",
+                },
+            })
+            assert.equal(schema.description, "결제 정보")
+            assert.deepEqual(spec.components.schemas.BankPayment.required, ["type", "account"])
+        })
+
+        it("구조가 동일한 객체 스키마가 반복되면 하나의 컴포넌트로 합쳐져야 한다", () => {
+            const body = { address: { city: "Seoul", zip: "04524" } }
+            for (const url of ["/test/stores", "/test/warehouses"]) {
+                generator.collectTestResult({
+                    method: HttpMethod.GET,
+                    url,
+                    options: { tag: "Test" },
+                    request: {},
+                    response: { status: 200, body },
+                })
+            }
+
+            const spec = generateSpec()
+
+            const [storeSchema, warehouseSchema] = ["/test/stores", "/test/warehouses"].map(
+                (url) => {
+                    const content = spec.paths[url].get.responses["200"].content
+                    return content[Object.keys(content)[0]].schema
+                },
+            )
+            assert.property(storeSchema, "$ref")
+            assert.deepEqual(warehouseSchema, storeSchema)
+
+            const name = storeSchema.$ref.split("/").pop()
+            assert.deepEqual(Object.keys(spec.components.schemas[name].properties), ["address"])
+        })
+
+        it("예시 값만 다른 객체 스키마도 합쳐지고 처음 나온 예시를 유지해야 한다", () => {
+            for (const [url, name] of [
+                ["/test/owners", "홍길동"],
+                ["/test/managers", "김철수"],
+            ]) {
+                generator.collectTestResult({
+                    method: HttpMethod.GET,
+                    url,
+                    options: { tag: "Test" },
+                    request: {},
+                    response: { status: 200, body: { name: field("이름", name) } },
+                })
+            }
+
+            const spec = generateSpec()
+
+            const [ownerSchema, managerSchema] = ["/test/owners", "/test/managers"].map((url) => {
+                const content = spec.paths[url].get.responses["200"].content
+                return content[Object.keys(content)[0]].schema
+            })
+            assert.property(ownerSchema, "$ref")
+            assert.deepEqual(managerSchema, ownerSchema)
+
+            const name = ownerSchema.$ref.split("/").pop()
+            assert.equal(spec.components.schemas[name].properties.name.example, "홍길동")
+        })
+
+        it("컴포넌트로 추출된 스키마 안의 중복 스키마도 $ref로 바뀌어야 한다", () => {
+            const address = { city: "Seoul", zip: "04524" }
+            const bodies: Array<[string, unknown]> = [
+                ["/test/stores", { address, manager: { name: "홍길동", phone: "010" } }],
+                ["/test/warehouses", { address, manager: { name: "홍길동", phone: "010" } }],
+                ["/test/offices", { address }],
+            ]
+            for (const [url, body] of bodies) {
+                generator.collectTestResult({
+                    method: HttpMethod.GET,
+                    url,
+                    options: { tag: "Test" },
+                    request: {},
+                    response: { status: 200, body },
+                })
+            }
+
+            const spec = generateSpec()
+
+            const [storeSchema, officeSchema] = ["/test/stores", "/test/offices"].map((url) => {
+                const content = spec.paths[url].get.responses["200"].content
+                return content[Object.keys(content)[0]].schema
+            })
+            const store = spec.components.schemas[storeSchema.$ref.split("/").pop()]
+            const addressRef = store.properties.address
+            assert.property(addressRef, "$ref")
+            assert.deepEqual(officeSchema.properties.address, addressRef)
+            assert.notProperty(store.properties.manager, "$ref")
+        })
+    })
+
+    describe("field() 제약 조건", () => {
+        it("field 옵션의 제약 조건이 응답 스키마에 반영되어야 한다", () => {
+            generator.collectTestResult({
+                method: HttpMethod.GET,
+                url: "/test/constraints/members",
+                options: { tag: "Test" },
+                request: {},
+                response: {
+                    status: 200,
+                    body: {
+                        code: field("회원 코드", "ABC", {
+                            pattern: /^[A-Z]{3}$/,
+                            minLength: 3,
+                            maxLength: 3,
+                            readOnly: true,
+                        }),
+                        grade: field("등급", "GOLD", {
+                            enum: ["GOLD", "SILVER"],
+                            default: "SILVER",
+                        }),
+                    },
+                },
+            })
+
+            const spec = generateSpec()
+            const content = spec.paths["/test/constraints/members"].get.responses["200"].content
+            const { properties } = content[Object.keys(content)[0]].schema
+
+            assert.include(properties.code, {
+                pattern: "^[A-Z]{3}$",
+                minLength: 3,
+                maxLength: 3,
+                readOnly: true,
+            })
+            assert.deepEqual(properties.grade.enum, ["GOLD", "SILVER"])
+            assert.equal(properties.grade.default, "SILVER")
+        })
+
+        it("배열 매처는 모든 요소를 합친 하나의 items 스키마로 문서화되어야 한다", () => {
+            generator.collectTestResult({
+                method: HttpMethod.GET,
+                url: "/test/constraints/feeds",
+                options: { tag: "Test" },
+                request: {},
+                response: {
+                    status: 200,
+                    body: {
+                        feeds: field.unordered(
+                            "피드 목록",
+                            [
+                                { id: field("ID", 1), title: field("제목", "공지") },
+                                { id: field("ID", 2), title: field("제목", null) },
+                            ],
+                            { minItems: 1, maxItems: 20 },
+                        ),
+                    },
+                },
+            })
+
+            const spec = generateSpec()
+            const content = spec.paths["/test/constraints/feeds"].get.responses["200"].content
+            const { feeds } = content[Object.keys(content)[0]].schema.properties
+
+            assert.include(feeds, { type: "array", minItems: 1, maxItems: 20 })
+            assert.equal(feeds.items.type, "object")
+            assert.include(feeds.items.properties.title, { type: "string", nullable: true })
+            assert.deepEqual(feeds.example, [
+                { id: 1, title: "공지" },
+                { id: 2, title: null },
+            ])
+        })
+
+        it("field 매처는 선언한 타입과 형식으로 문서화되어야 한다", () => {
+            generator.collectTestResult({
+                method: HttpMethod.GET,
+                url: "/test/constraints/orders",
+                options: { tag: "Test" },
+                request: {},
+                response: {
+                    status: 200,
+                    body: {
+                        id: field.uuid("주문 ID"),
+                        total: field.any("합계", "number"),
+                        code: field.matches("주문 코드", /^ORD-\d+$/),
+                    },
+                },
+            })
+
+            const spec = generateSpec()
+            const content = spec.paths["/test/constraints/orders"].get.responses["200"].content
+            const { properties } = content[Object.keys(content)[0]].schema
+
+            assert.include(properties.id, { type: "string", format: "uuid" })
+            assert.include(properties.total, { type: "number", example: 0 })
+            assert.deepEqual(properties.code, {
+                type: "string",
+                description: "주문 코드",
+                pattern: "^ORD-\\d+$",
+            })
+        })
+    })
+
+    describe("operation 메타데이터", () => {
+        it("tags, deprecated, externalDocs, servers, x- 확장을 operation에 반영해야 한다", () => {
+            generator.collectTestResult({
+                method: HttpMethod.GET,
+                url: "/test/metadata/legacy-users",
+                options: {
+                    summary: "레거시 사용자 목록",
+                    tag: "User",
+                    tags: ["Legacy", "User"],
+                    deprecated: true,
+                    externalDocs: {
+                        url: "https://example.com/migration",
+                        description: "마이그레이션",
+                    },
+                    servers: [{ url: "https://legacy.example.com" }],
+                    "x-internal": true,
+                },
+                request: {},
+                response: { status: 200 },
+            })
+
+            const spec = generateSpec()
+            const operation = spec.paths["/test/metadata/legacy-users"].get
+
+            assert.deepEqual(operation.tags, ["User", "Legacy"])
+            assert.isTrue(operation.deprecated)
+            assert.deepEqual(operation.externalDocs, {
+                url: "https://example.com/migration",
+                description: "마이그레이션",
+            })
+            assert.deepEqual(operation.servers, [{ url: "https://legacy.example.com" }])
+            assert.isTrue(operation["x-internal"])
+        })
+    })
+
+    describe("보안 요구사항", () => {
+        const collect = (
+            url: string,
+            status: number,
+            authorized: boolean,
+            options: ApiDocOptions = {},
+        ): void => {
+            generator.collectTestResult({
+                method: HttpMethod.GET,
+                url,
+                options,
+                request: authorized ? { headers: { authorization: "Bearer token" } } : {},
+                response: { status },
+            })
+        }
+        const securityOf = (url: string): unknown => generateSpec().paths[url].get.security
+
+        it("인증 없이 401을 받는 테스트가 있으면 인증이 필요한 것으로 문서화되어야 한다", () => {
+            collect("/test/secret", 200, true)
+            collect("/test/secret", 401, false)
+
+            assert.deepEqual(securityOf("/test/secret"), [{ BearerAuth: [] }])
+        })
+
+        it("인증 없이도 성공하는 테스트가 있으면 인증이 선택인 것으로 문서화되어야 한다", () => {
+            collect("/test/feed", 200, true)
+            collect("/test/feed", 200, false)
+
+            assert.deepEqual(securityOf("/test/feed"), [{ BearerAuth: [] }, {}])
+        })
+
+        it("인증 없이 보낸 요청이 400을 받으면 인증이 선택인 것으로 보지 않아야 한다", () => {
+            collect("/test/orders", 200, true)
+            collect("/test/orders", 400, false)
+
+            assert.deepEqual(securityOf("/test/orders"), [{ BearerAuth: [] }])
+        })
+
+        it("security 옵션으로 public, optional을 지정할 수 있어야 한다", () => {
+            collect("/test/public", 200, true, { security: "public" })
+            collect("/test/optional", 401, false, { security: "optional" })
+            collect("/test/optional", 200, true, { security: "optional" })
+
+            const spec = generateSpec()
+            assert.deepEqual(spec.paths["/test/public"].get.security, [])
+            assert.deepEqual(spec.paths["/test/optional"].get.security, [{ BearerAuth: [] }, {}])
+        })
+
+        it("인증 정보를 보내는 테스트가 없으면 security를 기록하지 않아야 한다", () => {
+            collect("/test/health", 200, false)
+
+            const spec = generateSpec()
+            assert.notProperty(spec.paths["/test/health"].get, "security")
+            assert.notProperty(spec, "security")
+        })
+    })
+
+    describe("operationId", () => {
+        it("중복된 operationId는 describeAPI 위치와 함께 실패해야 한다", () => {
+            for (const url of ["/test/user-list", "/test/userList"]) {
+                generator.collectTestResult({
+                    method: HttpMethod.GET,
+                    url,
+                    options: { summary: "사용자 목록", operationId: "getUserList" },
+                    request: {},
+                    response: { status: 200 },
+                })
+            }
+
+            assert.throws(
+                () => generator.generateOpenAPISpec(),
+                'Duplicate operationId "getUserList": 사용자 목록 | [GET] /test/user-list, 사용자 목록 | [GET] /test/userList',
+            )
+
+            generator.reset()
+            assert.doesNotThrow(() => generator.generateOpenAPISpec())
+        })
+    })
+
+    describe("webhooks", () => {
+        const originalCwd = process.cwd()
+        let projectDir: string
+
+        const useItdocConfig = (document: Record<string, unknown>): void => {
+            fs.writeFileSync(
+                path.join(projectDir, "package.json"),
+                JSON.stringify({ name: "webhooks-test", itdoc: { document } }),
+            )
+        }
+
+        const orderCreated = {
+            post: {
+                summary: "주문 생성 알림",
+                requestBody: {
+                    content: {
+                        "application/json": {
+                            schema: {
+                                type: "object",
+                                properties: { orderId: { type: "string", nullable: true } },
+                            },
+                        },
+                    },
+                },
+                responses: { "200": { description: "수신 확인" } },
+            },
+        }
+
+        beforeEach(() => {
+            projectDir = fs.mkdtempSync(path.join(os.tmpdir(), "itdoc-webhooks-"))
+            process.chdir(projectDir)
+            generator.reset()
+        })
+
+        afterEach(() => {
+            process.chdir(originalCwd)
+            fs.rmSync(projectDir, { recursive: true, force: true })
+        })
+
+        it("3.1 문서에는 설정된 webhooks를 3.1 스키마로 기록해야 한다", () => {
+            useItdocConfig({
+                openapiVersion: "3.1",
+                webhooks: { orderCreated, invalid: { post: "not an operation" } },
+            })
+
+            const spec = generateSpec()
+
+            assert.deepEqual(Object.keys(spec.webhooks), ["orderCreated"])
+            assert.deepEqual(
+                spec.webhooks.orderCreated.post.requestBody.content["application/json"].schema
+                    .properties.orderId,
+                { type: ["string", "null"] },
+            )
+        })
+
+        it("3.0 문서에는 webhooks를 기록하지 않아야 한다", () => {
+            useItdocConfig({ webhooks: { orderCreated } })
+
+            const spec = generateSpec()
+
+            assert.equal(spec.openapi, "3.0.0")
+            assert.isUndefined(spec.webhooks)
+        })
+    })
+
     describe("normalizePathTemplate", () => {
         it("should handle paths without parameters", () => {
             const generator = OpenAPIGenerator.getInstance()
@@ -0,0 +1,54 @@
+/*
+ * Copyright 2025 the original author or authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { assert } from "chai"
+import { SchemaFactory } from "../../../../dsl/generator/builders/schema"
+import { field } from "../../../../dsl"
+
+describe("ArraySchemaGenerator", () => {
+    const factory = new SchemaFactory()
+    const createSchema = (value: unknown): any => factory.createSchema(value, false)
+
+    it("모든 요소의 객체 속성을 합치고 일부 요소에만 있는 속성은 optional이 되어야 한다", () => {
+        const schema = createSchema([
+            { id: field("ID", 1), name: field("이름", "penekhun") },
+            { id: field("ID", 2), name: field("이름", "zagabi"), nickname: field("별명", "jg") },
+        ])
+
+        assert.deepEqual(Object.keys(schema.items.properties), ["id", "name", "nickname"])
+        assert.deepEqual(schema.items.required, ["id", "name"])
+    })
+
+    it("타입이 다른 요소는 oneOf로 문서화되어야 한다", () => {
+        const schema = createSchema(["text", { type: "image" }])
+
+        assert.deepEqual(
+            schema.items.oneOf.map((branch: any) => branch.type),
+            ["string", "object"],
+        )
+    })
+
+    it("빈 배열의 items는 모든 값을 허용해야 한다", () => {
+        assert.deepEqual(createSchema([]), { type: "array", items: {} })
+    })
+
+    it("field()의 items 옵션으로 빈 배열의 항목 스키마를 선언할 수 있어야 한다", () => {
+        const schema = createSchema(field("태그 목록", [], { items: field.any("태그", "string") }))
+
+        assert.equal(schema.type, "array")
+        assert.include(schema.items, { type: "string", description: "태그" })
+    })
+})
@@ -0,0 +1,207 @@
+/*
+ * Copyright 2025 the original author or authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from "chai"
+import { OpenAPISpecDiff } from "../../../../dsl/generator/OpenAPISpecDiff"
+
+describe("OpenAPISpecDiff", () => {
+    const createSpec = (
+        paths: Record<string, unknown>,
+        schemas: Record<string, unknown> = {},
+    ): Record<string, unknown> => ({
+        openapi: "3.0.0",
+        info: { title: "test", version: "1.0.0" },
+        paths,
+        components: { schemas },
+    })
+
+    const userOperation = (requestSchema: unknown, responseSchema: unknown): unknown => ({
+        post: {
+            requestBody: { content: { "application/json": { schema: requestSchema } } },
+            responses: {
+                "201": {
+                    description: "Created",
+                    content: { "application/json": { schema: responseSchema } },
+                },
+            },
+        },
+    })
+
+    it("동일한 문서는 변경 사항이 없어야 한다", () => {
+        const spec = createSpec({ "/users": userOperation({ type: "object" }, { type: "object" }) })
+
+        expect(new OpenAPISpecDiff(spec, spec).compare()).to.deep.equal([])
+    })
+
+    it("경로 삭제는 breaking, 경로 추가는 non-breaking으로 분류해야 한다", () => {
+        const changes = new OpenAPISpecDiff(
+            createSpec({ "/users": { get: { responses: {} } } }),
+            createSpec({ "/members": { get: { responses: {} } } }),
+        ).compare()
+
+        expect(changes).to.deep.equal([
+            { kind: "breaking", pointer: "#/paths/~1users", message: "Path /users was removed" },
+            {
+                kind: "non-breaking",
+                pointer: "#/paths/~1members",
+                message: "Path /members was added",
+            },
+        ])
+    })
+
+    it("필수 요청 필드 추가와 enum 축소는 breaking으로 분류해야 한다", () => {
+        const baseline = createSpec({
+            "/users": userOperation(
+                {
+                    type: "object",
+                    properties: { role: { type: "string", enum: ["USER", "ADMIN"] } },
+                },
+                { type: "object" },
+            ),
+        })
+        const current = createSpec({
+            "/users": userOperation(
+                {
+                    type: "object",
+                    properties: {
+                        role: { type: "string", enum: ["USER"] },
+                        email: { type: "string" },
+                    },
+                    required: ["email"],
+                },
+                { type: "object" },
+            ),
+        })
+
+        const changes = new OpenAPISpecDiff(baseline, current).compare()
+
+        expect(changes.map((change) => [change.kind, change.message])).to.deep.equal([
+            ["breaking", 'Enum narrowed: removed ["ADMIN"]'],
+            ["breaking", 'Required request field "email" was added'],
+        ])
+    })
+
+    it("$ref로 참조된 응답 스키마에서 필드가 삭제되면 breaking으로 분류해야 한다", () => {
+        const ref = { $ref: "#/components/schemas/User" }
+        const baseline = createSpec(
+            { "/users": userOperation({ type: "object" }, ref) },
+            {
+                User: {
+                    type: "object",
+                    properties: { id: { type: "integer" }, name: { type: "string" } },
+                },
+            },
+        )
+        const current = createSpec(
+            { "/users": userOperation({ type: "object" }, ref) },
+            {
+                User: { type: "object", properties: { id: { type: "integer" } } },
+            },
+        )
+
+        const changes = new OpenAPISpecDiff(baseline, current).compare()
+
+        expect(changes).to.deep.equal([
+            {
+                kind: "breaking",
+                pointer:
+                    "#/paths/~1users/post/responses/201/content/application~1json/schema/properties/name",
+                message: 'Response field "name" was removed',
+            },
+        ])
+    })
+
+    it("type 배열은 집합으로 비교하고 요청/응답 방향에 따라 분류해야 한다", () => {
+        const baseline = createSpec({
+            "/users": userOperation(
+                { type: "object", properties: { nickname: { type: ["string", "null"] } } },
+                {
+                    type: "object",
+                    properties: { id: { type: "integer" }, name: { type: "string" } },
+                },
+            ),
+        })
+        const current = createSpec({
+            "/users": userOperation(
+                { type: "object", properties: { nickname: { type: "string" } } },
+                {
+                    type: ["object", "null"],
+                    properties: { id: { type: ["integer", "string"] } },
+                },
+            ),
+        })
+
+        const changes = new OpenAPISpecDiff(baseline, current).compare()
+
+        expect(changes.map((change) => [change.kind, change.message])).to.deep.equal([
+            ["breaking", "Value is no longer nullable"],
+            ["breaking", "Value became nullable"],
+            ["breaking", 'Type "string" was added'],
+            ["breaking", 'Response field "name" was removed'],
+        ])
+    })
+
+    it("nullable과 같은 의미의 type 배열은 변경 사항이 없어야 한다", () => {
+        const baseline = createSpec({
+            "/users": userOperation({ type: "string", nullable: true }, { type: "object" }),
+        })
+        const current = createSpec({
+            "/users": userOperation({ type: ["string", "null"] }, { type: "object" }),
+        })
+
+        expect(new OpenAPISpecDiff(baseline, current).compare()).to.deep.equal([])
+    })
+
+    it("oneOf variant 삭제와 const 변경을 breaking으로 분류해야 한다", () => {
+        const card = { $ref: "#/components/schemas/Card" }
+        const bank = { $ref: "#/components/schemas/Bank" }
+        const schemas = (cardType: unknown): Record<string, unknown> => ({
+            Card: { type: "object", properties: { type: cardType } },
+            Bank: { type: "object", properties: { type: { const: "BANK" } } },
+        })
+        const baseline = createSpec(
+            { "/payments": userOperation({ oneOf: [card, bank] }, { type: "object" }) },
+            schemas({ const: "CARD" }),
+        )
+        const current = createSpec(
+            { "/payments": userOperation({ oneOf: [card] }, { type: "object" }) },
+            schemas({ const: "CREDIT_CARD" }),
+        )
+
+        const changes = new OpenAPISpecDiff(baseline, current).compare()
+
+        expect(changes).to.deep.equal([
+            {
+                kind: "breaking",
+                pointer:
+                    "#/paths/~1payments/post/requestBody/content/application~1json/schema/oneOf/0/properties/type",
+                message: 'Enum narrowed: removed ["CARD"]',
+            },
+            {
+                kind: "breaking",
+                pointer:
+                    "#/paths/~1payments/post/requestBody/content/application~1json/schema/oneOf/1",
+                message: "oneOf variant #/components/schemas/Bank was removed",
+            },
+            {
+                kind: "non-breaking",
+                pointer:
+                    "#/paths/~1payments/post/requestBody/content/application~1json/schema/oneOf/0/properties/type",
+                message: 'Enum widened: added ["CREDIT_CARD"]',
+            },
+        ])
+    })
+})
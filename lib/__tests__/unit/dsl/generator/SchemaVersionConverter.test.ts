@@ -0,0 +1,98 @@
+/*
+ * Copyright 2025 the original author or authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { assert } from "chai"
+import { SchemaVersionConverter } from "../../../../dsl/generator/builders/schema"
+
+describe("SchemaVersionConverter", () => {
+    describe("OpenAPI 3.0", () => {
+        const converter = new SchemaVersionConverter("3.0.0")
+
+        it("type: null은 nullable로 변환되어야 한다", () => {
+            assert.deepEqual(converter.convertSchema({ type: "null", description: "메모" }), {
+                description: "메모",
+                nullable: true,
+            })
+        })
+
+        it("oneOf의 null 분기는 제거되고 nullable로 표현되어야 한다", () => {
+            const schema = converter.convertSchema({
+                type: "object",
+                properties: {
+                    coupon: { oneOf: [{ type: "string" }, { type: "null" }] },
+                },
+            }) as any
+
+            assert.deepEqual(schema.properties.coupon, { type: "string", nullable: true })
+        })
+
+        it("type 배열, const, examples는 3.0 키워드로 변환되어야 한다", () => {
+            assert.deepEqual(
+                converter.convertSchema({ type: ["integer", "null"], const: 1, examples: [1, 2] }),
+                { type: "integer", nullable: true, enum: [1], example: 1 },
+            )
+        })
+    })
+
+    describe("OpenAPI 3.1", () => {
+        const converter = new SchemaVersionConverter("3.1.0")
+
+        it("nullable은 type 배열로, example은 examples로 변환되어야 한다", () => {
+            assert.deepEqual(
+                converter.convertSchema({ type: "string", nullable: true, example: "a" }),
+                {
+                    type: ["string", "null"],
+                    examples: ["a"],
+                },
+            )
+        })
+
+        it("값이 하나인 enum은 const로 변환되어야 한다", () => {
+            assert.deepEqual(converter.convertSchema({ type: "string", enum: ["ACTIVE"] }), {
+                type: "string",
+                const: "ACTIVE",
+            })
+        })
+
+        it("문서의 응답 예시는 스키마가 아니므로 변환하지 않아야 한다", () => {
+            const document = converter.convertDocument({
+                paths: {
+                    "/users": {
+                        get: {
+                            responses: {
+                                "200": {
+                                    content: {
+                                        "application/json": {
+                                            schema: { type: "integer", example: 1 },
+                                            examples: { ok: { value: { example: 1 } } },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                },
+                components: { schemas: { Id: { type: "integer", nullable: true } } },
+            }) as any
+
+            const content =
+                document.paths["/users"].get.responses["200"].content["application/json"]
+            assert.deepEqual(content.schema, { type: "integer", examples: [1] })
+            assert.deepEqual(content.examples, { ok: { value: { example: 1 } } })
+            assert.deepEqual(document.components.schemas.Id, { type: ["integer", "null"] })
+        })
+    })
+})
@@ -0,0 +1,170 @@
+/*
+ * Copyright 2025 the original author or authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from "chai"
+import { ParameterBuilder, SecurityBuilder } from "../../../../dsl/generator/builders/operation"
+import { TestResult } from "../../../../dsl/generator/types/TestResult"
+import { SecuritySchemeObject } from "../../../../dsl/generator/types/OpenAPITypes"
+import { HttpMethod } from "../../../../dsl/enums"
+import { isSecuritySchemeObject } from "../../../../config/getOpenAPIConfig"
+
+describe("SecurityBuilder", () => {
+    const declaredSchemes: Record<string, SecuritySchemeObject> = {
+        oauth2: {
+            type: "oauth2",
+            flows: {
+                authorizationCode: {
+                    authorizationUrl: "https://auth.example.com/authorize",
+                    tokenUrl: "https://auth.example.com/token",
+                    scopes: { "orders:read": "주문 조회", "orders:write": "주문 생성" },
+                },
+            },
+        },
+        oidc: {
+            type: "openIdConnect",
+            openIdConnectUrl: "https://auth.example.com/.well-known/openid-configuration",
+        },
+        accessToken: { type: "http", scheme: "bearer", bearerFormat: "opaque" },
+        headerKey: { type: "apiKey", name: "X-API-Key", in: "header" },
+        queryKey: { type: "apiKey", name: "api_key", in: "query" },
+        cookieKey: { type: "apiKey", name: "session", in: "cookie" },
+    }
+    const createResult = (request: TestResult["request"]): TestResult => ({
+        method: HttpMethod.POST,
+        url: "/orders",
+        options: {},
+        request,
+        response: { status: 201 },
+    })
+
+    describe("extractSecurityRequirements", () => {
+        it("req().auth()로 지정한 스킴은 필요한 scope와 함께 요구사항에 기록되어야 한다", () => {
+            const builder = new SecurityBuilder(declaredSchemes)
+
+            const security = builder.extractSecurityRequirements(
+                createResult({
+                    headers: { authorization: "Bearer token" },
+                    auth: { scheme: "oauth2", scopes: ["orders:write"] },
+                }),
+            )
+
+            expect(security).to.deep.equal([{ oauth2: ["orders:write"] }])
+            expect(builder.getSecuritySchemes()).to.deep.equal({ oauth2: declaredSchemes.oauth2 })
+        })
+
+        it("OpenID Connect 스킴은 선언된 discovery URL과 함께 등록되어야 한다", () => {
+            const builder = new SecurityBuilder(declaredSchemes)
+
+            builder.extractSecurityRequirements(
+                createResult({ auth: { scheme: "oidc", scopes: ["openid"] } }),
+            )
+
+            expect(builder.getSecuritySchemes().oidc.openIdConnectUrl).to.equal(
+                "https://auth.example.com/.well-known/openid-configuration",
+            )
+        })
+
+        it("authorization 헤더로 추론한 스킴은 같은 종류로 선언된 스킴을 우선 사용해야 한다", () => {
+            const builder = new SecurityBuilder(declaredSchemes)
+
+            const security = builder.extractSecurityRequirements(
+                createResult({ headers: { authorization: "Bearer token" } }),
+            )
+
+            expect(security).to.deep.equal([{ accessToken: [] }])
+            expect(builder.getSecuritySchemes()).to.deep.equal({
+                accessToken: declaredSchemes.accessToken,
+            })
+        })
+
+        it("선언된 스킴이 없으면 authorization 헤더로 스킴을 추론해야 한다", () => {
+            const builder = new SecurityBuilder({})
+
+            const security = builder.extractSecurityRequirements(
+                createResult({ headers: { authorization: "Basic dXNlcjpwdw==" } }),
+            )
+
+            expect(security).to.deep.equal([{ BasicAuth: [] }])
+            expect(builder.getSecuritySchemes().BasicAuth).to.deep.equal({
+                type: "http",
+                scheme: "basic",
+            })
+        })
+    })
+
+    describe("API 키", () => {
+        it("선언된 위치와 이름으로 전송된 API 키는 보안 요구사항으로 기록되어야 한다", () => {
+            const builder = new SecurityBuilder(declaredSchemes)
+
+            expect(
+                builder.extractSecurityRequirements(
+                    createResult({ queryParams: { api_key: "key", page: 1 } }),
+                ),
+            ).to.deep.equal([{ queryKey: [] }])
+            expect(
+                builder.extractSecurityRequirements(createResult({ cookies: { session: "s" } })),
+            ).to.deep.equal([{ cookieKey: [] }])
+            expect(builder.getSecuritySchemes().queryKey).to.deep.equal(declaredSchemes.queryKey)
+        })
+
+        it("함께 전송된 인증 정보는 하나의 요구사항으로 기록되어야 한다", () => {
+            const builder = new SecurityBuilder(declaredSchemes)
+
+            const security = builder.extractSecurityRequirements(
+                createResult({
+                    headers: { authorization: "Bearer token", "x-api-key": "key" },
+                }),
+            )
+
+            expect(security).to.deep.equal([{ accessToken: [], headerKey: [] }])
+        })
+
+        it("API 키는 파라미터 목록에서 제외되어야 한다", () => {
+            const builder = new ParameterBuilder(declaredSchemes)
+
+            const parameters = builder.extractParameters(
+                createResult({
+                    headers: { "x-api-key": "key", "x-request-id": "1" },
+                    queryParams: { api_key: "key", page: 1 },
+                    cookies: { session: "s" },
+                }),
+            )
+
+            expect(parameters.map(({ name, in: location }) => `${location}:${name}`)).to.deep.equal(
+                ["query:page", "header:x-request-id"],
+            )
+        })
+    })
+
+    describe("isSecuritySchemeObject", () => {
+        it("type에 필요한 속성을 갖춘 스킴만 허용해야 한다", () => {
+            for (const scheme of Object.values(declaredSchemes)) {
+                expect(isSecuritySchemeObject(scheme)).to.equal(true)
+            }
+            expect(isSecuritySchemeObject({ type: "openIdConnect" })).to.equal(false)
+            expect(isSecuritySchemeObject({ type: "apiKey", name: "X-Api-Key" })).to.equal(false)
+            expect(
+                isSecuritySchemeObject({
+                    type: "oauth2",
+                    flows: { clientCredentials: { scopes: {} } },
+                }),
+            ).to.equal(false)
+            expect(isSecuritySchemeObject({ type: "oauth2", flows: { custom: {} } })).to.equal(
+                false,
+            )
+        })
+    })
+})
@@ -0,0 +1,57 @@
+/*
+ * Copyright 2025 the original author or authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from "chai"
+import { UtilityBuilder } from "../../../../dsl/generator/builders/operation/UtilityBuilder"
+import { TestResult } from "../../../../dsl/generator/types/TestResult"
+import { HttpMethod } from "../../../../dsl/enums"
+
+describe("UtilityBuilder", () => {
+    const builder = new UtilityBuilder()
+    const createResult = (method: HttpMethod, url: string, operationId?: string): TestResult => ({
+        method,
+        url,
+        options: { operationId },
+        request: {},
+        response: { status: 200 },
+    })
+
+    describe("generateOperationId", () => {
+        it("ApiDocOptions.operationId가 지정되면 그대로 사용해야 한다", () => {
+            const result = createResult(HttpMethod.GET, "/users/:userId", "findUser")
+
+            expect(builder.generateOperationId(result)).to.equal("findUser")
+        })
+
+        it("기본 전략은 기존 operationId 형식을 유지해야 한다", () => {
+            const result = createResult(HttpMethod.DELETE, "/users/:userId/friends/:friendName")
+
+            expect(builder.generateOperationId(result)).to.equal(
+                "deleteUsersByuseridFriendsByfriendname",
+            )
+        })
+
+        it("camelCase 전략은 하이픈, 버전 접두사, 경로 파라미터를 단어 경계로 처리해야 한다", () => {
+            const camelCaseBuilder = new UtilityBuilder("camelCase")
+            const generate = (url: string): string =>
+                camelCaseBuilder.generateOperationId(createResult(HttpMethod.GET, url))
+
+            expect(generate("/v1/user-list/:userId")).to.equal("getV1UserListByUserId")
+            expect(generate("/cached_data/{item-id}")).to.equal("getCachedDataByItemId")
+            expect(generate("/")).to.equal("getRoot")
+        })
+    })
+})
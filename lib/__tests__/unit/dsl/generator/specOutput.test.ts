@@ -0,0 +1,110 @@
+/*
+ * Copyright 2025 the original author or authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from "chai"
+import { mergeOpenAPISpecs, sortOpenAPISpec } from "../../../../dsl/generator/specOutput"
+
+describe("specOutput", () => {
+    describe("mergeOpenAPISpecs", () => {
+        it("파라미터는 위치와 이름, 응답은 상태 코드 기준으로 병합해야 한다", () => {
+            const previous = {
+                paths: {
+                    "/users": {
+                        get: {
+                            operationId: "getUsers",
+                            parameters: [
+                                { in: "query", name: "page" },
+                                { in: "query", name: "size" },
+                            ],
+                            responses: {
+                                "200": { description: "old" },
+                                "400": { description: "bad" },
+                            },
+                        },
+                    },
+                },
+            }
+            const next = {
+                paths: {
+                    "/users": {
+                        get: {
+                            operationId: "getUsers",
+                            parameters: [{ in: "query", name: "size", required: true }],
+                            responses: { "200": { description: "new" } },
+                        },
+                    },
+                },
+            }
+
+            const merged = mergeOpenAPISpecs(previous, next)
+            const operation = merged.paths["/users"].get
+
+            expect(operation.parameters).to.deep.equal([
+                { in: "query", name: "page" },
+                { in: "query", name: "size", required: true },
+            ])
+            expect(operation.responses).to.deep.equal({
+                "200": { description: "new" },
+                "400": { description: "bad" },
+            })
+        })
+
+        it("operationId가 같은 operation이 다른 경로로 이동하면 이전 경로에서 제거해야 한다", () => {
+            const previous = {
+                paths: { "/user": { get: { operationId: "getUser", responses: {} } } },
+            }
+            const next = {
+                paths: { "/users/{id}": { get: { operationId: "getUser", responses: {} } } },
+            }
+
+            const merged = mergeOpenAPISpecs(previous, next)
+
+            expect(Object.keys(merged.paths)).to.deep.equal(["/users/{id}"])
+        })
+    })
+
+    describe("sortOpenAPISpec", () => {
+        it("경로, 상태 코드, 컴포넌트 이름은 정렬하고 스키마 속성 순서는 유지해야 한다", () => {
+            const sorted = sortOpenAPISpec({
+                paths: {
+                    "/users": {
+                        post: { responses: { "400": {}, "201": {} } },
+                        get: { responses: {} },
+                    },
+                    "/orders": {},
+                },
+                components: {
+                    schemas: {
+                        User: { properties: { name: {}, id: {} } },
+                        Order: {},
+                    },
+                },
+                info: { title: "test" },
+                openapi: "3.0.0",
+            })
+
+            expect(Object.keys(sorted)).to.deep.equal(["openapi", "info", "paths", "components"])
+            expect(Object.keys(sorted.paths)).to.deep.equal(["/orders", "/users"])
+            expect(Object.keys(sorted.paths["/users"])).to.deep.equal(["get", "post"])
+            expect(Object.keys(sorted.paths["/users"].post.responses)).to.deep.equal(["201", "400"])
+            expect(Object.keys(sorted.components.schemas)).to.deep.equal(["Order", "User"])
+            expect(Object.keys(sorted.components.schemas.User.properties)).to.deep.equal([
+                "name",
+                "id",
+            ])
+        })
+    })
+})
@@ -0,0 +1,65 @@
+/*
+ * Copyright 2025 the original author or authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from "chai"
+import { validateOpenAPISpec } from "../../../../dsl/generator/validateOpenAPISpec"
+
+describe("validateOpenAPISpec", () => {
+    const createSpec = (response: Record<string, unknown>): Record<string, unknown> => ({
+        openapi: "3.0.0",
+        info: { title: "test", version: "1.0.0" },
+        paths: {
+            "/users": {
+                get: {
+                    responses: { "200": response },
+                },
+            },
+        },
+    })
+
+    it("구조가 올바른 문서는 문제를 보고하지 않아야 한다", async () => {
+        const problems = await validateOpenAPISpec(
+            createSpec({
+                description: "OK",
+                content: { "application/json": { schema: { type: "string", nullable: true } } },
+            }),
+        )
+
+        expect(problems).to.deep.equal([])
+    })
+
+    it("구조 오류는 JSON pointer와 함께 error로 보고해야 한다", async () => {
+        const problems = await validateOpenAPISpec(
+            createSpec({
+                description: 200,
+                content: { "application/json": { schema: { type: "null" } } },
+            }),
+        )
+
+        expect(problems.map((problem) => [problem.severity, problem.pointer])).to.deep.equal([
+            ["error", "#/paths/~1users/get/responses/200/description"],
+            ["error", "#/paths/~1users/get/responses/200/content/application~1json/schema/type"],
+        ])
+    })
+
+    it("해결되지 않는 $ref를 보고해야 한다", async () => {
+        const problems = await validateOpenAPISpec(
+            createSpec({ $ref: "#/components/responses/NotFound" }),
+        )
+
+        expect(problems.some((problem) => problem.ruleId === "no-unresolved-refs")).to.equal(true)
+    })
+})
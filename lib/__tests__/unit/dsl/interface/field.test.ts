@@ -16,6 +16,7 @@
 
 import { expect } from "chai"
 import { field } from "../../../../dsl"
+import { getSchemaName } from "../../../../dsl/interface/field"
 
 describe("field() 는", () => {
     it("3번째 인자를 생략하면 required가 true로 설정된다.", () => {
@@ -49,4 +50,163 @@ describe("field() 는", () => {
             required: false,
         })
     })
+
+    it("3번째 인자로 옵션 객체를 전달하면 required와 제약 조건이 설정된다.", () => {
+        expect(
+            field("나이", 20, { required: false, minimum: 0, maximum: 150, nullable: true }),
+        ).deep.equal({
+            description: "나이",
+            example: 20,
+            required: false,
+            minimum: 0,
+            maximum: 150,
+            nullable: true,
+        })
+    })
+
+    it("옵션 객체에 required가 없으면 required가 true로 설정된다.", () => {
+        expect(field("상태", "ACTIVE", { enum: ["ACTIVE", "INACTIVE"] }).required).to.equal(true)
+    })
+
+    it("최솟값이 최댓값보다 크면 에러가 발생한다.", () => {
+        expect(() => field("이름", "홍길동", { minLength: 10, maxLength: 2 })).to.throw(
+            "field(): minLength (10) must not be greater than maxLength (2).",
+        )
+    })
+
+    describe("field.schema() 는", () => {
+        it("shape를 그대로 유지하면서 스키마 이름을 기록한다.", () => {
+            const user = field.schema("User", { id: field("유저 ID", 1) })
+
+            expect(user).deep.equal({ id: field("유저 ID", 1) })
+            expect(getSchemaName(user)).equal("User")
+        })
+
+        it("컴포넌트 이름으로 사용할 수 없는 이름이면 에러가 발생한다.", () => {
+            expect(() => field.schema("User Profile", {})).to.throw(
+                'field.schema(): "User Profile" is not a valid schema name.',
+            )
+        })
+    })
+
+    describe("field 매처는", () => {
+        it("field.any()는 선언한 타입과 기본 문서 예시를 가진다.", () => {
+            expect(field.any("개수", "integer")).deep.equal({
+                description: "개수",
+                example: 0,
+                required: true,
+                type: "integer",
+            })
+        })
+
+        it("field.any()는 옵션의 example을 문서 예시로 사용한다.", () => {
+            expect(field.any("생성 시각", "string", { example: "2026-01-01" }).example).equal(
+                "2026-01-01",
+            )
+        })
+
+        it("field.any()에 지원하지 않는 타입을 전달하면 에러가 발생한다.", () => {
+            expect(() => field.any("생성 시각", "date" as any)).to.throw(
+                'field.any(): "date" is not a supported type.',
+            )
+        })
+
+        it("field.uuid()는 uuid 형식의 문자열 필드를 만든다.", () => {
+            const id = field.uuid("ID")
+
+            expect(id.type).equal("string")
+            expect(id.format).equal("uuid")
+            expect(id.example).to.be.a("string")
+        })
+
+        it("field.matches()는 문서 예시가 패턴과 맞지 않으면 에러가 발생한다.", () => {
+            expect(() => field.matches("코드", /^[A-Z]+$/, { example: "abc" })).to.throw(
+                'field.matches(): example "abc" does not match /^[A-Z]+$/.',
+            )
+        })
+
+        it("문서에 기록할 수 없는 플래그가 있는 정규식 패턴이면 에러가 발생한다.", () => {
+            expect(() => field.matches("코드", /^abc$/i)).to.throw(
+                'field(): pattern /^abc$/i has flags that cannot be documented. Only the "u" flag is allowed.',
+            )
+            expect(() => field("코드", "abc", { pattern: /^abc$/g })).to.throw(
+                'field(): pattern /^abc$/g has flags that cannot be documented. Only the "u" flag is allowed.',
+            )
+            expect(field.matches("코드", /^\p{L}+$/u).pattern).deep.equal(/^\p{L}+$/u)
+        })
+    })
+
+    describe("배열 매처는", () => {
+        it("field.each()는 항목 형태 하나를 문서 예시로 사용한다.", () => {
+            const members = field.each("회원 목록", { id: field("ID", 1) })
+
+            expect(members.type).equal("array")
+            expect(members.arrayMatch).deep.equal({
+                mode: "each",
+                elements: [{ id: field("ID", 1) }],
+            })
+            expect(members.example).deep.equal([{ id: 1 }])
+        })
+
+        it("field.contains()와 field.unordered()는 요소 목록을 문서 예시로 사용한다.", () => {
+            expect(field.contains("권한", ["ADMIN"]).example).deep.equal(["ADMIN"])
+            expect(field.unordered("태그", ["a", "b"]).arrayMatch?.mode).equal("unordered")
+        })
+
+        it("최소 개수가 최대 개수보다 크면 에러가 발생한다.", () => {
+            expect(() => field.each("태그", "tag", { minItems: 3, maxItems: 1 })).to.throw(
+                "field(): minItems (3) must not be greater than maxItems (1).",
+            )
+        })
+    })
+
+    describe("다형성 필드는", () => {
+        it("field.oneOf()는 첫 번째 variant를 문서 예시로 사용한다.", () => {
+            const payment = field.oneOf(
+                "결제 정보",
+                [
+                    { type: field("결제 수단", "card"), cardNumber: field("카드 번호", "1234") },
+                    { type: field("결제 수단", "bank"), account: field("계좌 번호", "110-1") },
+                ],
+                { discriminator: "type" },
+            )
+
+            expect(payment.description).equal("결제 정보")
+            expect(payment.composition?.keyword).equal("oneOf")
+            expect(payment.composition?.discriminator).equal("type")
+            expect(payment.example).deep.equal({ type: "card", cardNumber: "1234" })
+        })
+
+        it("field.allOf()는 모든 variant를 합친 값을 문서 예시로 사용한다.", () => {
+            const user = field.allOf("회원", [
+                { id: field("ID", 1) },
+                { name: field("이름", "hun") },
+            ])
+
+            expect(user.example).deep.equal({ id: 1, name: "hun" })
+        })
+
+        it("variant가 없으면 에러가 발생한다.", () => {
+            expect(() => field.anyOf("결제 정보", [])).to.throw(
+                "field.anyOf(): at least one variant is required.",
+            )
+        })
+
+        it("discriminator 값이 없거나 중복되면 에러가 발생한다.", () => {
+            expect(() =>
+                field.oneOf("결제 정보", [{ type: "card" }, { account: "110-1" }], {
+                    discriminator: "type",
+                }),
+            ).to.throw(
+                'field.oneOf(): every variant must declare the discriminator property "type" with a string value.',
+            )
+            expect(() =>
+                field.oneOf("결제 정보", [{ type: "card" }, { type: field("결제 수단", "card") }], {
+                    discriminator: "type",
+                }),
+            ).to.throw(
+                'field.oneOf(): discriminator value "card" is used by more than one variant.',
+            )
+        })
+    })
 })
@@ -0,0 +1,45 @@
+/*
+ * Copyright 2025 the original author or authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from "chai"
+import { file } from "../../../../dsl"
+
+describe("file() 는", () => {
+    it("contentType을 생략하면 application/octet-stream으로 설정된다.", () => {
+        expect(file("프로필 이미지", { path: "./avatar.png" })).deep.equal({
+            description: "프로필 이미지",
+            file: { path: "./avatar.png" },
+            opts: { contentType: "application/octet-stream" },
+        })
+    })
+
+    it("filename과 contentType을 지정할 수 있다.", () => {
+        const buffer = Buffer.from("hello")
+        expect(
+            file("첨부 파일", { buffer, filename: "hello.txt", contentType: "text/plain" }),
+        ).deep.equal({
+            description: "첨부 파일",
+            file: { buffer },
+            opts: { contentType: "text/plain", filename: "hello.txt" },
+        })
+    })
+
+    it("파일 소스를 두 개 이상 지정하면 에러가 발생한다.", () => {
+        expect(() => file("첨부 파일", { path: "./a.txt", buffer: Buffer.from("a") })).to.throw(
+            "file(): provide exactly one of path | buffer | stream in the descriptor.",
+        )
+    })
+})
@@ -15,7 +15,13 @@
  */
 
 import { expect } from "chai"
-import { validateResponse } from "../../../../dsl/test-builders/validateResponse"
+import {
+    findUndocumentedFields,
+    validateNoUndocumentedFields,
+    validateResponse,
+    validateResponseHeader,
+    validateResponseText,
+} from "../../../../dsl/test-builders/validateResponse"
 import { field } from "../../../../dsl"
 
 describe("validateResponse 함수 검증", () => {
@@ -204,4 +210,392 @@ describe("validateResponse 함수 검증", () => {
             )
         })
     })
+
+    describe("field() 제약 조건", () => {
+        const validateId = (): void => {}
+
+        it("제약 조건을 만족하면 에러가 발생하지 않아야 한다", () => {
+            const expected = {
+                id: field("ID", validateId, { format: "uuid" }),
+                age: field("나이", validateId, { minimum: 0, maximum: 150 }),
+                status: field("상태", validateId, { enum: ["ACTIVE", "INACTIVE"] }),
+                memo: field("메모", validateId, { nullable: true, maxLength: 10 }),
+            }
+            const actual = {
+                id: "3f2504e0-4f89-11d3-9a0c-0305e82c3301",
+                age: 30,
+                status: "ACTIVE",
+                memo: null,
+            }
+            expect(() => validateResponse(expected, actual)).to.not.throw()
+        })
+        ;[
+            {
+                expected: { age: field("나이", validateId, { minimum: 0 }) },
+                actual: { age: -1 },
+                throwMessage: "Expected response body[age] to be >= 0 but got -1",
+            },
+            {
+                expected: { status: field("상태", validateId, { enum: ["ACTIVE"] }) },
+                actual: { status: "DELETED" },
+                throwMessage:
+                    'Expected response body[status] to be one of ["ACTIVE"] but got "DELETED"',
+            },
+            {
+                expected: { code: field("코드", validateId, { pattern: /^[A-Z]{3}$/ }) },
+                actual: { code: "ab1" },
+                throwMessage: 'Expected response body[code] to match /^[A-Z]{3}$/ but got "ab1"',
+            },
+            {
+                expected: { email: field("이메일", validateId, { format: "email" }) },
+                actual: { email: "not-an-email" },
+                throwMessage:
+                    'Expected response body[email] to be in email format but got "not-an-email"',
+            },
+            {
+                expected: { name: field("이름", validateId, { nullable: false }) },
+                actual: { name: null },
+                throwMessage: "Expected response body[name] not to be null but got null",
+            },
+        ].forEach(({ expected, actual, throwMessage }) => {
+            it(`제약 조건을 위반하면 에러가 발생해야 한다 (${throwMessage})`, () => {
+                expect(() => validateResponse(expected, actual)).to.throw(throwMessage)
+            })
+        })
+
+        it("required가 false인 필드는 응답에 없어도 에러가 발생하지 않아야 한다", () => {
+            const expected = { nickname: field("닉네임", "penekhun", false) }
+            expect(() => validateResponse(expected, {})).to.not.throw()
+        })
+    })
+
+    describe("field 매처", () => {
+        it("선언한 타입과 형식에 맞으면 값이 달라도 에러가 발생하지 않아야 한다", () => {
+            const expected = {
+                id: field.uuid("ID"),
+                createdAt: field.any("생성 시각", "string"),
+                count: field.any("개수", "integer"),
+                code: field.matches("코드", /^[A-Z]{3}-\d+$/),
+                tags: field.any("태그", "array"),
+            }
+            const actual = {
+                id: "3f2504e0-4f89-11d3-9a0c-0305e82c3301",
+                createdAt: "2026-10-19T10:00:00Z",
+                count: 42,
+                code: "ORD-1234",
+                tags: ["a", "b"],
+            }
+            expect(() => validateResponse(expected, actual)).to.not.throw()
+        })
+        ;[
+            {
+                expected: { count: field.any("개수", "integer") },
+                actual: { count: 1.5 },
+                throwMessage: "Expected response body[count] to be of type integer but got 1.5",
+            },
+            {
+                expected: { profile: field.any("프로필", "object") },
+                actual: { profile: [] },
+                throwMessage: "Expected response body[profile] to be of type object but got []",
+            },
+            {
+                expected: { id: field.uuid("ID") },
+                actual: { id: "1234" },
+                throwMessage: 'Expected response body[id] to be in uuid format but got "1234"',
+            },
+            {
+                expected: { code: field.matches("코드", /^[A-Z]{3}$/) },
+                actual: { code: 123 },
+                throwMessage: "Expected response body[code] to be of type string but got 123",
+            },
+        ].forEach(({ expected, actual, throwMessage }) => {
+            it(`선언한 타입이나 형식과 다르면 에러가 발생해야 한다 (${throwMessage})`, () => {
+                expect(() => validateResponse(expected, actual)).to.throw(throwMessage)
+            })
+        })
+
+        it("nullable 매처는 null 응답을 허용해야 한다", () => {
+            const expected = { deletedAt: field.any("삭제 시각", "string", { nullable: true }) }
+            expect(() => validateResponse(expected, { deletedAt: null })).to.not.throw()
+        })
+    })
+
+    describe("배열 매처", () => {
+        const member = { id: field.any("ID", "integer"), name: field.any("이름", "string") }
+
+        it("field.each()는 모든 요소가 항목 형태와 맞으면 길이와 상관없이 통과해야 한다", () => {
+            const expected = { members: field.each("회원 목록", member, { maxItems: 3 }) }
+            const actual = {
+                members: [
+                    { id: 1, name: "penekhun" },
+                    { id: 2, name: "zagabi" },
+                ],
+            }
+            expect(() => validateResponse(expected, actual)).to.not.throw()
+            expect(() => validateResponse(expected, { members: [] })).to.not.throw()
+        })
+
+        it("field()의 items 옵션이 있으면 각 요소를 항목 스키마로 검증해야 한다", () => {
+            const expected = {
+                tags: field("태그", (_: string[]) => {}, { items: field.any("태그", "string") }),
+            }
+            expect(() => validateResponse(expected, { tags: ["a", 1] })).to.throw(
+                "Expected response body[tags[1]] to be of type string but got 1",
+            )
+        })
+
+        it("field.contains()와 field.unordered()는 요소의 순서와 상관없이 통과해야 한다", () => {
+            const expected = {
+                roles: field.contains("권한", ["ADMIN"]),
+                tags: field.unordered("태그", ["b", "a", "c"]),
+            }
+            const actual = { roles: ["USER", "ADMIN"], tags: ["a", "b", "c"] }
+            expect(() => validateResponse(expected, actual)).to.not.throw()
+        })
+
+        it("느슨한 매처가 앞에 있어도 엄격한 요소가 맞출 수 있는 요소를 가져가지 않아야 한다", () => {
+            const elements = [field.any("x", "number"), 1]
+            expect(() => validateResponse(field.contains("d", elements), [1, 2])).to.not.throw()
+            expect(() => validateResponse(field.unordered("d", elements), [1, 2])).to.not.throw()
+            expect(() => validateResponse(field.unordered("d", elements), [2, 3])).to.throw(
+                "Expected response body[] to contain an element matching the expected element [1] but got [2,3]",
+            )
+        })
+        ;[
+            {
+                expected: { members: field.each("회원 목록", member) },
+                actual: {
+                    members: [
+                        { id: 1, name: "penekhun" },
+                        { id: "2", name: "zagabi" },
+                    ],
+                },
+                throwMessage:
+                    'Expected response body[members[1].id] to be of type integer but got "2"',
+            },
+            {
+                expected: { members: field.each("회원 목록", member, { minItems: 1 }) },
+                actual: { members: [] },
+                throwMessage: "Expected response body[members] to have at least 1 items but got []",
+            },
+            {
+                expected: { roles: field.contains("권한", ["ADMIN", "ADMIN"]) },
+                actual: { roles: ["USER", "ADMIN"] },
+                throwMessage:
+                    'Expected response body[roles] to contain an element matching the expected element [1] but got ["USER","ADMIN"]',
+            },
+            {
+                expected: { tags: field.unordered("태그", ["a", "b"]) },
+                actual: { tags: ["a", "b", "c"] },
+                throwMessage: "Expected response body[tags] to have length 2 but got 3",
+            },
+        ].forEach(({ expected, actual, throwMessage }) => {
+            it(`요소가 맞지 않으면 에러가 발생해야 한다 (${throwMessage})`, () => {
+                expect(() => validateResponse(expected, actual)).to.throw(throwMessage)
+            })
+        })
+    })
+
+    describe("strict 모드", () => {
+        it("선언되지 않은 응답 필드의 경로를 모두 찾아야 한다", () => {
+            const expected = {
+                user: field("유저", { id: field("ID", 1) }),
+                posts: field.each("게시글 목록", { title: field.any("제목", "string") }),
+                tags: ["a"],
+            }
+            const actual = {
+                user: { id: 1, email: "user@example.com" },
+                posts: [{ title: "첫 글" }, { title: "둘째 글", views: 3 }],
+                tags: ["a"],
+                token: "secret",
+            }
+
+            expect(findUndocumentedFields(expected, actual)).deep.equal([
+                "user.email",
+                "posts[1].views",
+                "token",
+            ])
+        })
+
+        it("타입만 선언한 필드와 검증 함수 필드의 내부는 검사하지 않아야 한다", () => {
+            const expected = {
+                meta: field.any("메타데이터", "object"),
+                profile: field("프로필", () => {}),
+            }
+            const actual = { meta: { anything: 1 }, profile: { nickname: "penekhun" } }
+
+            expect(findUndocumentedFields(expected, actual)).deep.equal([])
+        })
+
+        it("선언되지 않은 필드가 있으면 경로 목록과 함께 에러가 발생해야 한다", () => {
+            expect(() =>
+                validateNoUndocumentedFields({ id: field("ID", 1) }, { id: 1, secret: "x" }),
+            ).to.throw("Response body has fields that are not documented in res().body(): secret")
+        })
+    })
+
+    describe("응답 헤더 검증", () => {
+        it("문자열은 값이 같아야 한다", () => {
+            expect(() => validateResponseHeader("ETag", '"v1"', '"v2"')).to.throw(
+                'Expected response header "ETag" to be ""v1"", but got ""v2""',
+            )
+        })
+
+        it("정규식과 field.matches()는 패턴과 맞아야 한다", () => {
+            expect(() =>
+                validateResponseHeader("Location", /^\/users\/\d+$/, "/users/1"),
+            ).to.not.throw()
+            expect(() =>
+                validateResponseHeader("ETag", field.matches("ETag", /^W\/".+"$/), '"strong"'),
+            ).to.throw(
+                'Expected response header "ETag" to match /^W\\/".+"$/ but got "\\"strong\\""',
+            )
+        })
+
+        it("검증 함수에 실제 헤더 값을 전달해야 한다", () => {
+            const received: string[] = []
+            validateResponseHeader(
+                "X-RateLimit-Remaining",
+                field("남은 요청 수", (value: string) => {
+                    received.push(value)
+                }),
+                "99",
+            )
+            expect(received).deep.equal(["99"])
+        })
+
+        it("타입을 선언한 헤더는 값을 그 타입으로 변환해서 검증해야 한다", () => {
+            const limit = field.any("요청 한도", "integer", { minimum: 1, maximum: 100 })
+            expect(() => validateResponseHeader("X-RateLimit-Limit", limit, "50")).to.not.throw()
+            expect(() =>
+                validateResponseHeader("X-Debug", field.any("디버그 여부", "boolean"), "true"),
+            ).to.not.throw()
+        })
+        ;[
+            {
+                expected: field.any("요청 한도", "integer"),
+                actual: "not-a-number",
+                throwMessage:
+                    'Expected response header "X-RateLimit-Limit" to be of type integer, but got "not-a-number"',
+            },
+            {
+                expected: field.any("요청 한도", "integer"),
+                actual: "1.5",
+                throwMessage:
+                    'Expected response header "X-RateLimit-Limit" to be of type integer, but got "1.5"',
+            },
+            {
+                expected: field.any("요청 한도", "integer", { minimum: 1 }),
+                actual: "0",
+                throwMessage: 'Expected response header "X-RateLimit-Limit" to be >= 1 but got 0',
+            },
+            {
+                expected: field.any("요청 한도", "integer", { maximum: 100 }),
+                actual: "101",
+                throwMessage:
+                    'Expected response header "X-RateLimit-Limit" to be <= 100 but got 101',
+            },
+        ].forEach(({ expected, actual, throwMessage }) => {
+            it(`타입이나 범위가 맞지 않는 헤더는 에러가 발생해야 한다 (${actual})`, () => {
+                expect(() =>
+                    validateResponseHeader("X-RateLimit-Limit", expected, actual),
+                ).to.throw(throwMessage)
+            })
+        })
+
+        it("required가 false인 헤더는 없어도 되지만, 필수 헤더가 없으면 에러가 발생해야 한다", () => {
+            expect(() =>
+                validateResponseHeader("X-Request-Id", field("요청 ID", "abc", false), undefined),
+            ).to.not.throw()
+            expect(() =>
+                validateResponseHeader("X-Request-Id", field("요청 ID", "abc"), undefined),
+            ).to.throw('Expected response header "X-Request-Id" to be present, but it was missing')
+        })
+    })
+
+    describe("텍스트 응답 본문 검증", () => {
+        it("정규식이나 검증 함수로 텍스트 본문을 검증할 수 있어야 한다", () => {
+            const csv = "username,name\npenekhun,seonghun\n"
+
+            expect(() => validateResponseText(/^username,name\n/, csv)).to.not.throw()
+            expect(() =>
+                validateResponseText(
+                    field("CSV", (value: string) => {
+                        expect(value.split("\n")).to.have.length(3)
+                    }),
+                    csv,
+                ),
+            ).to.not.throw()
+        })
+
+        it("본문이 다르면 에러가 발생해야 한다", () => {
+            expect(() => validateResponseText("<h1>Hello</h1>", "<h1>Bye</h1>")).to.throw(
+                'Expected response body to be "<h1>Hello</h1>", but got "<h1>Bye</h1>"',
+            )
+        })
+    })
+
+    describe("다형성 필드 검증", () => {
+        const payment = field.oneOf(
+            "결제 정보",
+            [
+                { type: "card", cardNumber: field.matches("카드 번호", /^\d{4}$/) },
+                { type: "bank", account: field.any("계좌 번호", "string") },
+            ],
+            { discriminator: "type" },
+        )
+
+        it("discriminator 값으로 선택한 variant로 검증해야 한다", () => {
+            expect(() =>
+                validateResponse({ payment }, { payment: { type: "bank", account: "110-1" } }),
+            ).to.not.throw()
+            expect(() =>
+                validateResponse({ payment }, { payment: { type: "card", cardNumber: "12" } }),
+            ).to.throw(
+                'Expected response body[payment.cardNumber] to match /^\\d{4}$/ but got "12"',
+            )
+        })
+
+        it("discriminator 값이 어느 variant에도 없으면 에러가 발생해야 한다", () => {
+            expect(() => validateResponse({ payment }, { payment: { type: "cash" } })).to.throw(
+                'Expected response body[payment.type] to be one of ["card","bank"] but got "cash"',
+            )
+        })
+
+        it("응답 본문 전체를 다형성 필드로 검증할 수 있어야 한다", () => {
+            expect(() =>
+                validateResponse(payment, { type: "card", cardNumber: "1234" }),
+            ).to.not.throw()
+        })
+
+        it("oneOf는 정확히 하나, anyOf는 하나 이상의 variant와 일치해야 한다", () => {
+            const variants = [field.any("문자열", "string"), field.matches("a로 시작", /^a/)]
+
+            expect(() =>
+                validateResponse({ v: field.anyOf("값", variants) }, { v: "abc" }),
+            ).to.not.throw()
+            expect(() =>
+                validateResponse({ v: field.oneOf("값", variants) }, { v: "xyz" }),
+            ).to.not.throw()
+            expect(() =>
+                validateResponse({ v: field.oneOf("값", variants) }, { v: "abc" }),
+            ).to.throw(
+                "Expected response body[v] to match exactly one of the oneOf variants but it matched 2",
+            )
+            expect(() => validateResponse({ v: field.anyOf("값", variants) }, { v: 1 })).to.throw(
+                "Expected response body[v] to match at least one of the anyOf variants but it matched 0",
+            )
+        })
+
+        it("allOf는 모든 variant를 검증하고 어느 variant에도 없는 필드만 문서화되지 않은 필드로 본다", () => {
+            const user = field.allOf("회원", [{ id: field.any("ID", "integer") }, { name: "hun" }])
+
+            expect(() => validateResponse({ user }, { user: { id: 1, name: "kim" } })).to.throw(
+                "Expected response body[user.name] to be hun but got kim",
+            )
+            expect(
+                findUndocumentedFields({ user }, { user: { id: 1, name: "hun", age: 3 } }),
+            ).deep.equal(["user.age"])
+        })
+    })
 })
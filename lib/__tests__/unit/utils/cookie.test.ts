@@ -0,0 +1,63 @@
+/*
+ * Copyright 2025 the original author or authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { expect } from "chai"
+import { parseSetCookie, serializeCookies } from "../../../utils/cookie"
+
+describe("parseSetCookie() 는", () => {
+    it("쿠키 이름, 값과 속성을 파싱한다.", () => {
+        expect(
+            parseSetCookie("session=abc%20123; Max-Age=3600; Path=/; HttpOnly; SameSite=Strict"),
+        ).deep.equal({
+            name: "session",
+            value: "abc 123",
+            httpOnly: true,
+            secure: false,
+            sameSite: "Strict",
+            maxAge: 3600,
+            path: "/",
+        })
+    })
+
+    it("속성이 없으면 HttpOnly와 Secure는 false로 설정된다.", () => {
+        expect(parseSetCookie("theme=dark")).deep.equal({
+            name: "theme",
+            value: "dark",
+            httpOnly: false,
+            secure: false,
+        })
+    })
+})
+
+describe("serializeCookies() 는", () => {
+    it("쿠키를 Cookie 헤더 형식으로 직렬화한다.", () => {
+        expect(serializeCookies({ session: "abc 123", theme: "dark" })).equal(
+            "session=abc%20123; theme=dark",
+        )
+    })
+
+    it("값이 없는 쿠키는 제외하고 숫자와 불리언은 문자열로 직렬화한다.", () => {
+        expect(serializeCookies({ page: 2, remember: true, theme: undefined })).equal(
+            "page=2; remember=true",
+        )
+    })
+
+    it("문자열, 숫자, 불리언이 아닌 값이면 에러가 발생한다.", () => {
+        expect(() => serializeCookies({ session: () => undefined })).to.throw(
+            'Cookie "session" must be a string, number or boolean, but got function.',
+        )
+    })
+})
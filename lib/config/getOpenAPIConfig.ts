@@ -14,10 +14,20 @@
  * limitations under the License.
  */
 
-import { readItdocConfig } from "./readPackageJson"
+import { readItdocConfig, readItdocConfigValue } from "./readPackageJson"
+import * as path from "path"
+import logger from "./logger"
+import type { DefaultResponsesOption } from "../dsl/interface/ItdocBuilderEntry"
+import type { OpenAPIVersion } from "../dsl/generator/builders/schema/SchemaVersionConverter"
+import type {
+    OAuthFlowsObject,
+    SecuritySchemeObject,
+    TagObject,
+} from "../dsl/generator/types/OpenAPITypes"
 
 /**
  * 생성될 OAS에 설정된 서버 주소를 가져옴.
+ * @returns {string} 서버 주소
  */
 export function getOpenAPIBaseUrl(): string {
     return readItdocConfig("document.baseUrl", "http://localhost:8080")
@@ -25,6 +35,7 @@ export function getOpenAPIBaseUrl(): string {
 
 /**
  * 생성될 OAS에 설정될 TITLE을 가져옴.,
+ * @returns {string} 문서 제목
  */
 export function getOpenAPITitle(): string {
     return readItdocConfig("document.title", "API Document")
@@ -32,6 +43,7 @@ export function getOpenAPITitle(): string {
 
 /**
  * 생성될 OAS에 설정될 Top-Level 문서 설명을 가져옴.
+ * @returns {string} 문서 설명
  */
 export function getOpenAPIDocumentDescription(): string {
     return readItdocConfig(
@@ -39,3 +51,292 @@ export function getOpenAPIDocumentDescription(): string {
         "You can change the description by specifying it in package.json.",
     )
 }
+
+/**
+ * 생성될 OAS의 OpenAPI 버전을 가져옴. ("3.0" 또는 "3.1", 기본값 "3.0")
+ * @returns {OpenAPIVersion} OpenAPI 버전 ("3.0.0" 또는 "3.1.0")
+ */
+export function getOpenAPIVersion(): OpenAPIVersion {
+    const version = readItdocConfig("document.openapiVersion", "3.0")
+    if (version === "3.0" || version === "3.0.0") {
+        return "3.0.0"
+    }
+    if (version === "3.1" || version === "3.1.0") {
+        return "3.1.0"
+    }
+
+    logger.warn(
+        `Unsupported itdoc.document.openapiVersion "${version}". Falling back to OpenAPI 3.0.`,
+    )
+    return "3.0.0"
+}
+
+/**
+ * 테스트되지 않은 상태 코드에 대해 문서화할 기본 응답 목록을 가져옴.
+ * 설정되지 않았거나 잘못된 값이면 기본 응답을 추가하지 않음(false).
+ * @returns {DefaultResponsesOption} 기본 응답 상태 코드 목록 또는 false
+ */
+export function getOpenAPIDefaultResponses(): DefaultResponsesOption {
+    const value = readItdocConfigValue("document.defaultResponses")
+    if (value === undefined || value === false) {
+        return false
+    }
+
+    if (isDefaultResponsesOption(value)) {
+        return value
+    }
+
+    logger.warn(
+        "itdoc.document.defaultResponses must be false or a list of HTTP status codes. Default responses are disabled.",
+    )
+    return false
+}
+
+/**
+ * 기본 응답 설정 값이 올바른 형식인지 확인함.
+ * @param {unknown} value 설정 값
+ * @returns {boolean} false 또는 HTTP 상태 코드 목록인지 여부
+ */
+export function isDefaultResponsesOption(value: unknown): value is DefaultResponsesOption {
+    if (value === false) {
+        return true
+    }
+    return Array.isArray(value) && value.every((code) => /^[1-5]\d\d$/.test(String(code)))
+}
+
+/**
+ * 생성된 OAS의 검증 방식을 가져옴.
+ * - "warn": 문제를 로그로 출력하고 문서를 저장함 (기본값)
+ * - "strict": 구조 오류가 있으면 문서를 저장하지 않고 실행을 실패시킴
+ * - "off": 검증하지 않음
+ * @returns {"off" | "warn" | "strict"} 검증 방식
+ */
+export function getOpenAPIValidationMode(): "off" | "warn" | "strict" {
+    const mode = readItdocConfig("validation", "warn")
+    if (mode === "off" || mode === "warn" || mode === "strict") {
+        return mode
+    }
+
+    logger.warn(`Unsupported itdoc.validation "${mode}". Falling back to "warn".`)
+    return "warn"
+}
+
+/**
+ * 생성된 OAS와 비교할 기준(baseline) 문서 경로를 가져옴. 설정되지 않으면 undefined.
+ * @returns {string | undefined} 기준 문서의 절대 경로
+ */
+export function getOpenAPIBaselinePath(): string | undefined {
+    const baselinePath = readItdocConfig("baseline", "")
+    if (!baselinePath) {
+        return undefined
+    }
+    return path.isAbsolute(baselinePath) ? baselinePath : path.resolve(process.cwd(), baselinePath)
+}
+
+/**
+ * 기존 oas.json에 문서를 쓰는 방식을 가져옴.
+ * - "replace": 이번 실행에서 생성된 내용만 저장함 (기본값)
+ * - "merge": 기존 문서에 operation, 파라미터, 상태 코드 단위로 병합함
+ * @returns {"replace" | "merge"} oas.json 쓰기 방식
+ */
+export function getOpenAPIWriteStrategy(): "replace" | "merge" {
+    const strategy = readItdocConfig("writeStrategy", "replace")
+    if (strategy === "replace" || strategy === "merge") {
+        return strategy
+    }
+
+    logger.warn(`Unsupported itdoc.writeStrategy "${strategy}". Falling back to "replace".`)
+    return "replace"
+}
+
+/**
+ * operationId 생성 방식을 가져옴.
+ * - "default": 메서드와 경로 세그먼트를 이어 붙임 (예: getUsersByuserid)
+ * - "camelCase": 하이픈, 밑줄, 버전 접두사를 단어 경계로 처리함 (예: getV1UserListByUserId)
+ * @returns {"default" | "camelCase"} operationId 생성 방식
+ */
+export function getOperationIdStrategy(): "default" | "camelCase" {
+    const strategy = readItdocConfig("document.operationIdStrategy", "default")
+    if (strategy === "default" || strategy === "camelCase") {
+        return strategy
+    }
+
+    logger.warn(
+        `Unsupported itdoc.document.operationIdStrategy "${strategy}". Falling back to "default".`,
+    )
+    return "default"
+}
+
+/**
+ * 문서 최상위 tags에 등록할 태그 목록을 가져옴. 배열의 순서가 문서의 태그 순서가 됨.
+ * @returns {TagObject[]} 설정된 순서의 태그 목록
+ */
+export function getOpenAPITags(): TagObject[] {
+    const tags = readItdocConfigValue("document.tags")
+    if (tags === undefined) {
+        return []
+    }
+    if (!Array.isArray(tags)) {
+        logger.warn("itdoc.document.tags must be a list of tag objects. It is ignored.")
+        return []
+    }
+
+    return tags.filter((tag): tag is TagObject => {
+        const valid = !!tag && typeof tag === "object" && typeof tag.name === "string"
+        if (!valid) {
+            logger.warn(`Ignoring invalid tag in itdoc.document.tags: ${JSON.stringify(tag)}`)
+        }
+        return valid
+    })
+}
+
+/**
+ * Path Item에서 operation으로 쓰이는 HTTP 메서드 키.
+ */
+const PATH_ITEM_METHODS = ["get", "put", "post", "delete", "options", "head", "patch", "trace"]
+
+/**
+ * 웹훅 설정 값이 올바른 Path Item 형식인지 확인함.
+ * @param {unknown} value 설정 값
+ * @returns {boolean} 하나 이상의 operation을 객체로 가진 Path Item인지 여부
+ */
+export function isWebhookPathItem(value: unknown): value is Record<string, unknown> {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+        return false
+    }
+
+    const methods = Object.keys(value).filter((key) => PATH_ITEM_METHODS.includes(key))
+    return (
+        methods.length > 0 &&
+        methods.every((method) => {
+            const operation = (value as Record<string, unknown>)[method]
+            return !!operation && typeof operation === "object" && !Array.isArray(operation)
+        })
+    )
+}
+
+/**
+ * 문서 최상위 webhooks에 등록할 웹훅 목록을 가져옴. OpenAPI 3.1 문서에만 기록됨.
+ * 각 웹훅은 이름을 키로 하는 Path Item(메서드별 operation)임.
+ * @returns {Record<string, Record<string, unknown>>} 이름을 키로 하는 웹훅 Path Item 목록
+ */
+export function getOpenAPIWebhooks(): Record<string, Record<string, unknown>> {
+    const webhooks = readItdocConfigValue("document.webhooks")
+    if (webhooks === undefined) {
+        return {}
+    }
+    if (!webhooks || typeof webhooks !== "object" || Array.isArray(webhooks)) {
+        logger.warn(
+            "itdoc.document.webhooks must be an object of path items keyed by webhook name. It is ignored.",
+        )
+        return {}
+    }
+
+    const declared: Record<string, Record<string, unknown>> = {}
+    for (const [name, pathItem] of Object.entries(webhooks)) {
+        if (isWebhookPathItem(pathItem)) {
+            declared[name] = pathItem
+        } else {
+            logger.warn(
+                `Ignoring invalid webhook "${name}" in itdoc.document.webhooks: ${JSON.stringify(pathItem)}`,
+            )
+        }
+    }
+    return declared
+}
+
+/**
+ * 응답 본문에 res().body()로 선언되지 않은 필드가 있으면 테스트를 실패시킬지 여부를 가져옴. (기본값 false)
+ * @returns {boolean} 문서화되지 않은 필드를 허용하지 않는지 여부
+ */
+export function getStrictResponseBody(): boolean {
+    const strict = readItdocConfigValue("strictResponseBody")
+    if (strict === undefined || typeof strict === "boolean") {
+        return strict ?? false
+    }
+
+    logger.warn("itdoc.strictResponseBody must be true or false. Strict mode is disabled.")
+    return false
+}
+
+/**
+ * OAuth2 흐름별로 필요한 URL 속성.
+ */
+const OAUTH_FLOW_URLS: Record<keyof OAuthFlowsObject, string[]> = {
+    implicit: ["authorizationUrl"],
+    password: ["tokenUrl"],
+    clientCredentials: ["tokenUrl"],
+    authorizationCode: ["authorizationUrl", "tokenUrl"],
+}
+
+/**
+ * 보안 스킴 설정 값이 올바른 형식인지 확인함.
+ * @param {unknown} value 설정 값
+ * @returns {boolean} type에 필요한 속성을 모두 갖춘 보안 스킴인지 여부
+ */
+export function isSecuritySchemeObject(value: unknown): value is SecuritySchemeObject {
+    if (!value || typeof value !== "object") {
+        return false
+    }
+
+    const scheme = value as Record<string, any>
+    switch (scheme.type) {
+        case "http":
+            return typeof scheme.scheme === "string"
+        case "apiKey":
+            return (
+                typeof scheme.name === "string" && ["header", "query", "cookie"].includes(scheme.in)
+            )
+        case "openIdConnect":
+            return typeof scheme.openIdConnectUrl === "string"
+        case "oauth2": {
+            const flows = scheme.flows
+            if (!flows || typeof flows !== "object" || Object.keys(flows).length === 0) {
+                return false
+            }
+            return Object.entries(flows).every(([flowName, flow]: [string, any]) => {
+                const urls = OAUTH_FLOW_URLS[flowName as keyof OAuthFlowsObject]
+                return (
+                    !!urls &&
+                    !!flow &&
+                    typeof flow === "object" &&
+                    urls.every((url) => typeof flow[url] === "string") &&
+                    !!flow.scopes &&
+                    typeof flow.scopes === "object"
+                )
+            })
+        }
+        default:
+            return false
+    }
+}
+
+/**
+ * 문서 components.securitySchemes에 등록할 보안 스킴 목록을 가져옴.
+ * 테스트에서는 req().auth()로 스킴 이름과 필요한 scope를 지정해 참조함.
+ * @returns {Record<string, SecuritySchemeObject>} 이름을 키로 하는 보안 스킴 목록
+ */
+export function getOpenAPISecuritySchemes(): Record<string, SecuritySchemeObject> {
+    const schemes = readItdocConfigValue("document.securitySchemes")
+    if (schemes === undefined) {
+        return {}
+    }
+    if (!schemes || typeof schemes !== "object" || Array.isArray(schemes)) {
+        logger.warn(
+            "itdoc.document.securitySchemes must be an object of security schemes keyed by name. It is ignored.",
+        )
+        return {}
+    }
+
+    const declared: Record<string, SecuritySchemeObject> = {}
+    for (const [name, scheme] of Object.entries(schemes)) {
+        if (isSecuritySchemeObject(scheme)) {
+            declared[name] = scheme
+        } else {
+            logger.warn(
+                `Ignoring invalid security scheme "${name}" in itdoc.document.securitySchemes: ${JSON.stringify(scheme)}`,
+            )
+        }
+    }
+    return declared
+}
@@ -26,14 +26,24 @@ import logger from "./logger"
  * @returns itdoc[key] value or defaultValue
  */
 export function readItdocConfig(key: string, defaultValue: string): string {
+    const value = readItdocConfigValue(key)
+    return typeof value === "string" ? value : defaultValue
+}
+
+/**
+ * Reads a raw argument of any JSON type from the "itdoc" section in package.json.
+ * @param {string} key Argument name to query (depth can be added with .)
+ * @returns {unknown} itdoc[key] value or undefined if it does not exist
+ */
+export function readItdocConfigValue(key: string): unknown {
     const packageJson = readPackageJson()
     if (!packageJson) {
-        return defaultValue
+        return undefined
     }
 
     const itdocConfig = packageJson.itdoc
     if (!itdocConfig || typeof itdocConfig !== "object") {
-        return defaultValue
+        return undefined
     }
 
     const keys = key.split(".")
@@ -43,11 +53,11 @@ export function readItdocConfig(key: string, defaultValue: string): string {
         if (value && typeof value === "object" && k in value) {
             value = value[k]
         } else {
-            return defaultValue
+            return undefined
         }
     }
 
-    return typeof value === "string" ? value : defaultValue
+    return value
 }
 
 /**
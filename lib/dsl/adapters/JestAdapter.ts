@@ -32,8 +32,8 @@ export class JestAdapter implements UserTestInterface {
         ;(global as any).beforeAll(fn)
     }
 
-    public after(fn: () => void): void {
-        ;(global as any).afterAll(fn)
+    public after(fn: () => void | Promise<void>, timeout?: number): void {
+        ;(global as any).afterAll(fn, timeout)
     }
 
     public beforeEach(fn: () => void): void {
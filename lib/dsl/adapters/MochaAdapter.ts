@@ -44,8 +44,13 @@ export class MochaAdapter implements UserTestInterface {
         this.mochaGlobals.before(fn)
     }
 
-    public after(fn: () => void): void {
-        this.mochaGlobals.after(fn)
+    public after(fn: () => void | Promise<void>, timeout?: number): void {
+        this.mochaGlobals.after(function (this: { timeout: (ms: number) => void }) {
+            if (timeout !== undefined) {
+                this.timeout(timeout)
+            }
+            return fn()
+        })
     }
 
     public beforeEach(fn: () => void): void {
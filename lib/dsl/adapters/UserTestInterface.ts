@@ -25,7 +25,7 @@ export interface UserTestInterface {
     describe: (name: string, fn: () => void) => void
     it: (name: string, fn: () => void) => void
     before: (fn: () => void) => void
-    after: (fn: () => void) => void
+    after: (fn: () => void | Promise<void>, timeout?: number) => void
     beforeEach: (fn: () => void) => void
     afterEach: (fn: () => void) => void
     // expect: (fn: () => void) => void;
@@ -87,7 +87,7 @@ export function getTestAdapterExports(): {
     describeCommon: (name: string, fn: () => void) => void
     itCommon: (name: string, fn: () => void) => void
     beforeAllCommon: (fn: () => void) => void
-    afterAllCommon: (fn: () => void) => void
+    afterAllCommon: (fn: () => void | Promise<void>, timeout?: number) => void
     beforeEachCommon: (fn: () => void) => void
     afterEachCommon: (fn: () => void) => void
 } {
@@ -15,13 +15,27 @@
  */
 
 import { TestResult, IOpenAPIGenerator } from "./types/TestResult"
+import type { OpenAPIVersion } from "./builders/schema"
+import type { TagObject } from "./types/OpenAPITypes"
+import type { SecurityOption } from "../interface/ItdocBuilderEntry"
 import { OperationBuilder, UtilityBuilder } from "./builders/operation"
+import {
+    SchemaComponentExtractor,
+    SchemaMerger,
+    SchemaVersionConverter,
+    toProblemDetailsSchema,
+} from "./builders/schema"
 import logger from "../../config/logger"
 import { HttpStatus } from "../enums"
+import { isProblemJsonMediaType } from "../../utils/mediaType"
 import {
     getOpenAPIBaseUrl,
+    getOpenAPIDefaultResponses,
     getOpenAPIDocumentDescription,
+    getOpenAPITags,
     getOpenAPITitle,
+    getOpenAPIVersion,
+    getOpenAPIWebhooks,
 } from "../../config/getOpenAPIConfig"
 
 let instance: OpenAPIGenerator | null = null
@@ -36,7 +50,7 @@ interface OpenAPIInfo {
  * OpenAPI Specification generator
  *
  * It operates in a Singleton pattern and collects test results
- * Create a Specification document in OpenAPI 3.0.0 format.
+ * Create a Specification document in OpenAPI 3.0 or 3.1 format (`itdoc.document.openapiVersion`).
  */
 export class OpenAPIGenerator implements IOpenAPIGenerator {
     private testResults: TestResult[] = []
@@ -44,9 +58,10 @@ export class OpenAPIGenerator implements IOpenAPIGenerator {
     private version: string = "1.0.0"
     private description: string = getOpenAPIDocumentDescription()
     private servers: Array<{ url: string; description?: string }> = []
-    private defaultSecurity: Record<string, string[]>[] = [{}] // 기본값은 빈 보안 요구사항 (선택적 보안)
     private operationBuilder = new OperationBuilder()
     private utilityBuilder = new UtilityBuilder()
+    private schemaMerger = new SchemaMerger()
+    private responseComponents: Record<string, Record<string, unknown>> = {}
 
     /**
      * Constructor - set as private for singleton pattern
@@ -77,18 +92,32 @@ export class OpenAPIGenerator implements IOpenAPIGenerator {
         this.testResults.push(result)
     }
 
+    /**
+     * Discards the collected test results.
+     */
+    public reset(): void {
+        this.testResults = []
+        this.responseComponents = {}
+    }
+
     /**
      * Converts collected test results to OpenAPI Specification.
      * @returns {object} OpenAPI Specification object
      */
     public generateOpenAPISpec(): Record<string, unknown> {
         const groupedResults = this.groupTestResults()
+        this.responseComponents = {}
 
         const paths = this.generatePaths(groupedResults)
 
         this.validatePathParameters(paths)
 
-        return this.createFinalOpenAPIDocument(paths)
+        const schemas = new SchemaComponentExtractor().extract(paths)
+
+        const version = getOpenAPIVersion()
+        return new SchemaVersionConverter(version).convertDocument(
+            this.createFinalOpenAPIDocument(paths, schemas, version),
+        )
     }
 
     /**
@@ -128,23 +157,83 @@ export class OpenAPIGenerator implements IOpenAPIGenerator {
         groupedResults: Map<string, Map<string, Map<string, TestResult[]>>>,
     ): Record<string, Record<string, unknown>> {
         const paths: Record<string, Record<string, unknown>> = {}
+        const operationLocations = new Map<string, string[]>()
 
         for (const [path, methods] of groupedResults) {
             const normalizedPath = this.normalizePathTemplate(path)
             paths[normalizedPath] = {}
 
             for (const [method, statusCodes] of methods) {
-                paths[normalizedPath][method] = this.generateOperationObject(
-                    normalizedPath,
-                    method,
-                    statusCodes,
-                )
+                const operation = this.generateOperationObject(normalizedPath, method, statusCodes)
+                paths[normalizedPath][method] = operation
+
+                const operationId = operation.operationId as string
+                const locations = operationLocations.get(operationId) ?? []
+                locations.push(this.describeLocation(statusCodes))
+                operationLocations.set(operationId, locations)
             }
         }
 
+        this.validateOperationIds(operationLocations)
+
         return paths
     }
 
+    /**
+     * Sets deprecation, per-operation servers and vendor extensions from the describeAPI options.
+     * @param {Record<string, unknown>} operation Operation object
+     * @param {TestResult} result Representative test result
+     */
+    private setOperationMetadata(operation: Record<string, unknown>, result: TestResult): void {
+        const options = result.options ?? {}
+
+        if (options.deprecated) {
+            operation.deprecated = true
+        }
+
+        if (options.servers && options.servers.length > 0) {
+            operation.servers = options.servers
+        }
+
+        for (const [key, value] of Object.entries(options)) {
+            if (key.startsWith("x-")) {
+                operation[key] = value
+            }
+        }
+    }
+
+    /**
+     * Checks that every operationId is unique.
+     * @param {Map<string, string[]>} operationLocations describeAPI locations keyed by operationId
+     * @throws {Error} When several operations share an operationId
+     */
+    private validateOperationIds(operationLocations: Map<string, string[]>): void {
+        const duplicates = Array.from(operationLocations).filter(
+            ([, locations]) => locations.length > 1,
+        )
+        if (duplicates.length === 0) {
+            return
+        }
+
+        const details = duplicates
+            .map(([operationId, locations]) => `"${operationId}": ${locations.join(", ")}`)
+            .join("; ")
+        throw new Error(
+            `Duplicate operationId ${details}. Set a unique operationId in the describeAPI options.`,
+        )
+    }
+
+    /**
+     * Describes the describeAPI block an operation comes from, as printed by the test runner.
+     * @param {Map<string, TestResult[]>} statusCodes Test results of the operation
+     * @returns {string} describeAPI location (e.g. `User list | [GET] /users`)
+     */
+    private describeLocation(statusCodes: Map<string, TestResult[]>): string {
+        const result = Array.from(statusCodes.values()).flat()[0]
+        const summary = result.options?.summary ? `${result.options.summary} | ` : ""
+        return `${summary}[${result.method.toUpperCase()}] ${result.url}`
+    }
+
     /**
      * Generates an operation object for a specific path and method.
      * @param {string} path Path
@@ -167,41 +256,51 @@ export class OpenAPIGenerator implements IOpenAPIGenerator {
         operationObj.summary =
             representativeResult.options?.summary || `${method.toUpperCase()} ${path} request`
 
-        if (representativeResult.options?.tag) {
-            operationObj.tags = [representativeResult.options.tag]
+        const tags = this.utilityBuilder.collectTags(representativeResult.options)
+        if (tags.length > 0) {
+            operationObj.tags = tags
         }
 
         if (representativeResult.options?.description) {
             operationObj.description = representativeResult.options.description
         }
 
+        if (representativeResult.options?.externalDocs) {
+            operationObj.externalDocs = representativeResult.options.externalDocs
+        }
+
         operationObj.operationId = this.utilityBuilder.generateOperationId(representativeResult)
 
         this.setRequestInformation(operationObj, representativeResult)
 
-        this.processStatusCodes(statusCodes, responses)
+        const security = this.computeOperationSecurity(
+            `${method.toUpperCase()} ${path}`,
+            Array.from(statusCodes.values()).flat(),
+            representativeResult.options?.security,
+        )
+        if (security) {
+            operationObj.security = security
+        }
 
-        operationObj.responses = responses
+        this.processStatusCodes(method, statusCodes, responses)
 
-        const security = this.operationBuilder.generateOperation(representativeResult).security
+        this.addDefaultResponses(responses, representativeResult)
 
-        const hasBearerAuth =
-            security &&
-            Array.isArray(security) &&
-            security.length > 0 &&
-            security.some((item) => Object.keys(item).length > 0)
+        operationObj.responses = responses
 
-        operationObj.security = hasBearerAuth ? security : this.defaultSecurity
+        this.setOperationMetadata(operationObj, representativeResult)
 
         return operationObj
     }
 
     /**
      * Processes responses for each status code.
+     * @param {string} method HTTP method (lowercase)
      * @param {Map<string, TestResult[]>} statusCodes Status codes
      * @param {Record<string, unknown>} responses Response object
      */
     private processStatusCodes(
+        method: string,
         statusCodes: Map<string, TestResult[]>,
         responses: Record<string, unknown>,
     ): void {
@@ -212,7 +311,11 @@ export class OpenAPIGenerator implements IOpenAPIGenerator {
             const isErrorStatus = numericStatusCode >= 400
             const isNoContentStatus = this.isNoContentStatusCode(numericStatusCode)
 
-            if (isNoContentStatus || this.hasEmptyResponseBody(firstResult)) {
+            if (
+                isNoContentStatus ||
+                this.isBodylessMethod(method) ||
+                this.hasEmptyResponseBody(firstResult)
+            ) {
                 this.addResponseWithoutContent(responses, statusCode, firstResult)
                 continue
             }
@@ -227,6 +330,100 @@ export class OpenAPIGenerator implements IOpenAPIGenerator {
 
             this.processResponsesWithContent(responses, statusCode, results, isErrorStatus)
         }
+
+        for (const [statusCode, results] of statusCodes) {
+            this.addDocumentedResponseHeaders(
+                responses[statusCode] as Record<string, unknown>,
+                statusCode,
+                results,
+            )
+        }
+    }
+
+    /**
+     * Adds the configured default responses for status codes that no test case covers.
+     * They reference shared responses registered in `components.responses`.
+     * @param {Record<string, unknown>} responses Response object
+     * @param {TestResult} result Representative test result carrying the describeAPI options
+     */
+    private addDefaultResponses(responses: Record<string, unknown>, result: TestResult): void {
+        const defaultResponses = result.options?.defaultResponses ?? getOpenAPIDefaultResponses()
+        if (!defaultResponses) {
+            return
+        }
+
+        for (const code of defaultResponses.map(String)) {
+            if (responses[code]) {
+                continue
+            }
+
+            const name = this.getResponseComponentName(code)
+            this.responseComponents[name] = { description: this.getStatusText(code) }
+            responses[code] = { $ref: `#/components/responses/${name}` }
+        }
+    }
+
+    /**
+     * Gets the `components.responses` name of a default response.
+     * @param {string} code Status code
+     * @returns {string} Component name (e.g. `NotFound`)
+     */
+    private getResponseComponentName(code: string): string {
+        const statusText = HttpStatus[parseInt(code, 10)]
+        if (!statusText) {
+            return `Status${code}`
+        }
+        return statusText
+            .toLowerCase()
+            .split("_")
+            .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+            .join("")
+    }
+
+    /**
+     * Adds response headers that the test cases explicitly documented.
+     * Headers that merely happened to be returned by the server are not included.
+     * @param {Record<string, unknown>} response Response object
+     * @param {string} statusCode Status code
+     * @param {TestResult[]} results Test results
+     */
+    private addDocumentedResponseHeaders(
+        response: Record<string, unknown>,
+        statusCode: string,
+        results: TestResult[],
+    ): void {
+        const headers: Record<string, unknown> = {}
+
+        for (const result of results) {
+            const documentedNames = this.getDocumentedResponseHeaderNames(result)
+            if (documentedNames.length === 0) {
+                continue
+            }
+
+            const opObj = this.operationBuilder.generateOperation(result)
+            const resHeaders = (opObj.responses as Record<string, any>)[statusCode]?.headers ?? {}
+            for (const name of documentedNames) {
+                if (resHeaders[name] && !headers[name]) {
+                    headers[name] = resHeaders[name]
+                }
+            }
+        }
+
+        if (Object.keys(headers).length > 0) {
+            response.headers = headers
+        }
+    }
+
+    /**
+     * Gets the names of response headers documented by a test case.
+     * @param {TestResult} result Test result
+     * @returns {string[]} Documented response header names
+     */
+    private getDocumentedResponseHeaderNames(result: TestResult): string[] {
+        const names = Object.keys(result.response.expectedHeaders ?? {}).filter(
+            (name) => name.toLowerCase() !== "content-type",
+        )
+        return result.response.cookies ? [...names, "Set-Cookie"] : names
     }
 
     /**
@@ -284,7 +481,7 @@ export class OpenAPIGenerator implements IOpenAPIGenerator {
         isErrorStatus: boolean,
     ): Record<string, any> {
         const combinedContent: Record<string, any> = {}
-        const baseSchema = this.createBaseSchema(isErrorStatus)
+        const baseSchema = this.createBaseSchema()
 
         for (const result of results) {
             if (!this.hasResponseBodyExplicitlyDefined(result)) {
@@ -302,37 +499,31 @@ export class OpenAPIGenerator implements IOpenAPIGenerator {
                 combinedContent,
                 res.content,
                 result,
-                statusCode,
                 baseSchema,
                 isErrorStatus,
             )
         }
 
+        for (const [contentType, content] of Object.entries(combinedContent)) {
+            if (isProblemJsonMediaType(contentType)) {
+                content.schema = toProblemDetailsSchema(content.schema)
+            }
+            if (Object.keys(content.examples).length === 0) {
+                delete content.examples
+            }
+        }
+
         return combinedContent
     }
 
     /**
-     * Creates a base schema.
-     * @param {boolean} isErrorStatus Whether the status code is an error status
+     * Creates a base schema used when a response body has no inferable schema.
      * @returns {Record<string, any>} Base schema object
      */
-    private createBaseSchema(isErrorStatus: boolean): Record<string, any> {
-        return isErrorStatus
-            ? {
-                  type: "object",
-                  properties: {
-                      error: {
-                          type: "object",
-                          properties: {
-                              message: { type: "string" },
-                              code: { type: "string" },
-                          },
-                      },
-                  },
-              }
-            : {
-                  type: "object",
-              }
+    private createBaseSchema(): Record<string, any> {
+        return {
+            type: "object",
+        }
     }
 
     /**
@@ -340,7 +531,6 @@ export class OpenAPIGenerator implements IOpenAPIGenerator {
      * @param {Record<string, any>} combinedContent Combined content object
      * @param {Record<string, any>} resContent Response content
      * @param {TestResult} result Test result
-     * @param {string} statusCode Status code
      * @param {Record<string, any>} baseSchema Base schema
      * @param {boolean} isErrorStatus Whether the status code is an error status
      */
@@ -348,7 +538,6 @@ export class OpenAPIGenerator implements IOpenAPIGenerator {
         combinedContent: Record<string, any>,
         resContent: Record<string, any>,
         result: TestResult,
-        statusCode: string,
         baseSchema: Record<string, any>,
         isErrorStatus: boolean,
     ): void {
@@ -360,30 +549,46 @@ export class OpenAPIGenerator implements IOpenAPIGenerator {
                     schema: contentObj.schema || baseSchema,
                     examples: {},
                 }
+            } else if (contentObj.schema) {
+                combinedContent[contentType].schema = this.schemaMerger.merge(
+                    combinedContent[contentType].schema,
+                    contentObj.schema,
+                )
             }
 
-            const exampleKey =
+            // Binary downloads have no meaningful example value
+            if (result.response.file) {
+                continue
+            }
+
+            const exampleKey = this.createUniqueExampleKey(
+                combinedContent[contentType].examples,
                 result.testSuiteDescription ||
-                (isErrorStatus ? "Error Response" : "Success Response")
+                    (isErrorStatus ? "Error Response" : "Success Response"),
+            )
             const exampleValue = contentObj.example || result.response.body || null
 
-            if (isErrorStatus && exampleValue) {
-                combinedContent[contentType].examples[exampleKey] = {
-                    value: {
-                        error: {
-                            message: result.testSuiteDescription || `Status ${statusCode} error`,
-                            code: `ERROR_${statusCode}`,
-                        },
-                    },
-                }
-            } else {
-                combinedContent[contentType].examples[exampleKey] = {
-                    value: exampleValue,
-                }
+            combinedContent[contentType].examples[exampleKey] = {
+                value: exampleValue,
             }
         }
     }
 
+    /**
+     * Creates an example key that does not overwrite an example of another test case.
+     * @param {Record<string, unknown>} examples Examples collected so far
+     * @param {string} baseKey Preferred example key
+     * @returns {string} Unused example key
+     */
+    private createUniqueExampleKey(examples: Record<string, unknown>, baseKey: string): string {
+        let key = baseKey
+        let suffix = 2
+        while (key in examples) {
+            key = `${baseKey} (${suffix++})`
+        }
+        return key
+    }
+
     /**
      * Checks if the status code is No Content response.
      * @param {number} numericStatusCode Numeric status code
@@ -393,6 +598,16 @@ export class OpenAPIGenerator implements IOpenAPIGenerator {
         return numericStatusCode === 204 || numericStatusCode === 304 || numericStatusCode === 100
     }
 
+    /**
+     * Checks if responses to the method never carry a body.
+     * HEAD responses only describe the headers a GET would return.
+     * @param {string} method HTTP method (lowercase)
+     * @returns {boolean} Whether responses to the method have no body
+     */
+    private isBodylessMethod(method: string): boolean {
+        return method === "head"
+    }
+
     /**
      * Checks if the response body is empty.
      * @param {TestResult} result Test result object
@@ -405,6 +620,10 @@ export class OpenAPIGenerator implements IOpenAPIGenerator {
 
         const { body } = result.response
 
+        if (result.response.file) {
+            return false
+        }
+
         if (body === undefined || body === null) {
             return true
         }
@@ -425,8 +644,8 @@ export class OpenAPIGenerator implements IOpenAPIGenerator {
         return (
             result.response &&
             typeof result.response === "object" &&
-            "body" in result.response &&
-            result.response.body !== undefined
+            (("body" in result.response && result.response.body !== undefined) ||
+                result.response.file !== undefined)
         )
     }
 
@@ -440,10 +659,14 @@ export class OpenAPIGenerator implements IOpenAPIGenerator {
     /**
      * Creates the final OpenAPI document.
      * @param {Record<string, Record<string, unknown>>} paths Paths
+     * @param {Record<string, unknown>} schemas Reusable component schemas
+     * @param {OpenAPIVersion} version OpenAPI version of the document
      * @returns {Record<string, unknown>} Final OpenAPI document
      */
     private createFinalOpenAPIDocument(
         paths: Record<string, Record<string, unknown>>,
+        schemas: Record<string, unknown>,
+        version: OpenAPIVersion,
     ): Record<string, unknown> {
         const info: OpenAPIInfo = {
             title: this.title,
@@ -456,31 +679,98 @@ export class OpenAPIGenerator implements IOpenAPIGenerator {
         }
 
         const openApiSpec: Record<string, unknown> = {
-            openapi: "3.0.0",
+            openapi: version,
             info,
             servers: this.servers,
             paths,
         }
 
-        const components = this.createComponentsSection()
+        const webhooks = this.createWebhooksSection(version)
+        if (Object.keys(webhooks).length > 0) {
+            openApiSpec.webhooks = webhooks
+        }
+
+        const components = this.createComponentsSection(schemas)
         if (Object.keys(components).length > 0) {
             openApiSpec.components = components
         }
 
-        if (this.defaultSecurity.length > 0) {
-            openApiSpec.security = this.defaultSecurity
+        const tags = this.createTagsSection(paths)
+        if (tags.length > 0) {
+            openApiSpec.tags = tags
         }
 
         return openApiSpec
     }
 
+    /**
+     * Creates the top-level webhooks from `itdoc.document.webhooks`.
+     * Webhooks only exist in OpenAPI 3.1, so they are left out of 3.0 documents with a warning.
+     * @param {OpenAPIVersion} version OpenAPI version of the document
+     * @returns {Record<string, Record<string, unknown>>} Webhook path items keyed by name
+     */
+    private createWebhooksSection(
+        version: OpenAPIVersion,
+    ): Record<string, Record<string, unknown>> {
+        const webhooks = getOpenAPIWebhooks()
+        if (version !== "3.1.0" && Object.keys(webhooks).length > 0) {
+            logger.warn(
+                'itdoc.document.webhooks requires itdoc.document.openapiVersion "3.1". Webhooks are not written.',
+            )
+            return {}
+        }
+        return webhooks
+    }
+
+    /**
+     * Creates the top-level tags from the tag registry (`itdoc.document.tags`).
+     * Registered tags keep their configured order; tags used by operations but not registered
+     * follow in alphabetical order. Without a registry, no top-level tags are written.
+     * @param {Record<string, Record<string, unknown>>} paths Paths
+     * @returns {TagObject[]} Top-level tags
+     */
+    private createTagsSection(paths: Record<string, Record<string, unknown>>): TagObject[] {
+        const registry = getOpenAPITags()
+        if (registry.length === 0) {
+            return []
+        }
+
+        const registered = new Set(registry.map((tag) => tag.name))
+        const unregistered = new Set<string>()
+        for (const pathItem of Object.values(paths)) {
+            for (const operation of Object.values(pathItem) as Array<Record<string, unknown>>) {
+                for (const tag of (operation.tags as string[] | undefined) ?? []) {
+                    if (!registered.has(tag)) {
+                        unregistered.add(tag)
+                    }
+                }
+            }
+        }
+
+        return [
+            ...registry,
+            ...Array.from(unregistered)
+                .sort()
+                .map((name) => ({ name })),
+        ]
+    }
+
     /**
      * Creates the Components section.
+     * @param {Record<string, unknown>} schemas Reusable component schemas
      * @returns {Record<string, unknown>} Components section
      */
-    private createComponentsSection(): Record<string, unknown> {
+    private createComponentsSection(schemas: Record<string, unknown>): Record<string, unknown> {
         const components: Record<string, unknown> = {}
 
+        if (Object.keys(schemas).length > 0) {
+            components.schemas = schemas
+        }
+
+        if (Object.keys(this.responseComponents).length > 0) {
+            components.responses = this.responseComponents
+        }
+
         const securitySchemes = this.operationBuilder.getSecuritySchemes()
         if (Object.keys(securitySchemes).length > 0) {
             components.securitySchemes = securitySchemes
@@ -489,6 +779,66 @@ export class OpenAPIGenerator implements IOpenAPIGenerator {
         return components
     }
 
+    /**
+     * Computes the security requirements of an operation from all of its test results.
+     * Requirements with the same schemes are merged with the union of their scopes.
+     * Without the `security` option, authentication is optional when a test without
+     * credentials gets a successful (2xx) or redirect (3xx) response.
+     * @param {string} operationName Operation name used in warnings (e.g. `GET /users`)
+     * @param {TestResult[]} results Test results of the operation
+     * @param {SecurityOption} [option] Authentication declared in `ApiDocOptions.security`
+     * @returns {Array<Record<string, string[]>> | undefined} Security requirements, or undefined when no test sends credentials
+     */
+    private computeOperationSecurity(
+        operationName: string,
+        results: TestResult[],
+        option?: SecurityOption,
+    ): Array<Record<string, string[]>> | undefined {
+        if (option === "public") {
+            return []
+        }
+
+        const requirements = new Map<string, Record<string, string[]>>()
+        let anonymousAccess = false
+        for (const result of results) {
+            const resultRequirements = this.operationBuilder
+                .extractSecurityRequirements(result)
+                .filter((requirement) => Object.keys(requirement).length > 0)
+
+            if (resultRequirements.length === 0) {
+                const status = result.response.status
+                if (status >= 200 && status < 400) {
+                    anonymousAccess = true
+                }
+                continue
+            }
+
+            for (const requirement of resultRequirements) {
+                const key = Object.keys(requirement).sort().join(",")
+                const merged = requirements.get(key) ?? {}
+                for (const [scheme, scopes] of Object.entries(requirement)) {
+                    merged[scheme] = Array.from(new Set([...(merged[scheme] ?? []), ...scopes]))
+                }
+                requirements.set(key, merged)
+            }
+        }
+
+        if (requirements.size === 0) {
+            if (option) {
+                logger.warn(
+                    `${operationName} is documented with security "${option}" but no test sends credentials, so its security schemes are unknown.`,
+                )
+            }
+            return undefined
+        }
+
+        const security = Array.from(requirements.values())
+        if (option === "optional" || (option === undefined && anonymousAccess)) {
+            security.push({})
+        }
+        return security
+    }
+
     /**
      * Selects the representative result from multiple test results.
      * @param {TestResult[]} results Test results array
@@ -527,10 +877,6 @@ export class OpenAPIGenerator implements IOpenAPIGenerator {
         if (reqBody) {
             operation.requestBody = requestObj.requestBody
         }
-
-        if (requestObj.security) {
-            operation.security = requestObj.security
-        }
     }
 
     /**
@@ -0,0 +1,528 @@
+/*
+ * Copyright 2025 the original author or authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+type Schema = Record<string, any>
+type Document = Record<string, any>
+type Direction = "request" | "response"
+
+/**
+ * Whether a change can break existing API clients
+ */
+export type SpecChangeKind = "breaking" | "non-breaking"
+
+/**
+ * A difference between a baseline OpenAPI document and a newly generated one
+ * @property {SpecChangeKind} kind Whether the change breaks existing clients
+ * @property {string} pointer JSON pointer of the changed node in the document it exists in
+ * @property {string} message Description of the change
+ */
+export interface SpecChange {
+    kind: SpecChangeKind
+    pointer: string
+    message: string
+}
+
+const HTTP_METHODS = ["get", "put", "post", "delete", "options", "head", "patch", "trace"]
+
+const escapePointer = (segment: string): string => segment.replace(/~/g, "~0").replace(/\//g, "~1")
+
+const toPointer = (segments: string[]): string => `#/${segments.map(escapePointer).join("/")}`
+
+const COMPOSITION_KEYWORDS = ["oneOf", "anyOf", "allOf"]
+
+/**
+ * Collects the types a schema allows, counting `nullable: true` as the "null" type.
+ * @param {Schema} schema Schema
+ * @returns {Set<string>} Allowed types
+ */
+const schemaTypes = (schema: Schema): Set<string> => {
+    const types = new Set<string>(
+        Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [],
+    )
+    if (schema.nullable === true) {
+        types.add("null")
+    }
+    return types
+}
+
+/**
+ * Returns the values a schema is restricted to by `enum` or `const`.
+ * @param {Schema} schema Schema
+ * @returns {unknown[] | undefined} Allowed values, or undefined when the schema is not restricted
+ */
+const allowedValues = (schema: Schema): unknown[] | undefined => {
+    if (Array.isArray(schema.enum)) {
+        return schema.enum
+    }
+    return "const" in schema ? [schema.const] : undefined
+}
+
+/**
+ * Identifies a composition variant by its `$ref`, or by its position when it is inline.
+ * @param {unknown} variant Variant schema
+ * @param {number} index Position of the variant
+ * @returns {string} Variant key
+ */
+const variantKey = (variant: unknown, index: number): string => {
+    const ref = (variant as Schema | undefined)?.$ref
+    return typeof ref === "string" ? ref : `#${index}`
+}
+
+/**
+ * Compares a newly generated OpenAPI document with a baseline and classifies every change.
+ * Breaking changes are those that can make existing clients fail, such as a removed path or
+ * operation, a new required request field, a narrowed enum or a removed response field.
+ */
+export class OpenAPISpecDiff {
+    private readonly baseline: Document
+    private readonly current: Document
+    private readonly changes: SpecChange[] = []
+
+    /**
+     * Constructor
+     * @param {Document} baseline Baseline document (e.g. the committed oas.json)
+     * @param {Document} current Newly generated document
+     */
+    public constructor(baseline: Document, current: Document) {
+        this.baseline = baseline
+        this.current = current
+    }
+
+    /**
+     * Computes the changes from the baseline to the current document.
+     * @returns {SpecChange[]} Changes, breaking ones first
+     */
+    public compare(): SpecChange[] {
+        this.changes.length = 0
+
+        const basePaths = this.baseline.paths ?? {}
+        const currentPaths = this.current.paths ?? {}
+
+        for (const path of Object.keys(basePaths)) {
+            if (!(path in currentPaths)) {
+                this.add("breaking", ["paths", path], `Path ${path} was removed`)
+                continue
+            }
+            this.comparePathItem(path, basePaths[path], currentPaths[path])
+        }
+        for (const path of Object.keys(currentPaths)) {
+            if (!(path in basePaths)) {
+                this.add("non-breaking", ["paths", path], `Path ${path} was added`)
+            }
+        }
+
+        return [
+            ...this.changes.filter((change) => change.kind === "breaking"),
+            ...this.changes.filter((change) => change.kind === "non-breaking"),
+        ]
+    }
+
+    private comparePathItem(path: string, baseItem: Schema, currentItem: Schema): void {
+        for (const method of HTTP_METHODS) {
+            const location = ["paths", path, method]
+            const operation = `${method.toUpperCase()} ${path}`
+            if (baseItem[method] && !currentItem[method]) {
+                this.add("breaking", location, `Operation ${operation} was removed`)
+            } else if (!baseItem[method] && currentItem[method]) {
+                this.add("non-breaking", location, `Operation ${operation} was added`)
+            } else if (baseItem[method] && currentItem[method]) {
+                this.compareOperation(location, operation, baseItem[method], currentItem[method])
+            }
+        }
+    }
+
+    private compareOperation(
+        location: string[],
+        operation: string,
+        baseOperation: Schema,
+        currentOperation: Schema,
+    ): void {
+        this.compareParameters(
+            location,
+            operation,
+            baseOperation.parameters ?? [],
+            currentOperation.parameters ?? [],
+        )
+
+        const baseBody = baseOperation.requestBody
+        const currentBody = currentOperation.requestBody
+        const bodyLocation = [...location, "requestBody"]
+        if (!baseBody && currentBody?.required) {
+            this.add("breaking", bodyLocation, `${operation} now requires a request body`)
+        } else if (baseBody && currentBody) {
+            if (!baseBody.required && currentBody.required) {
+                this.add("breaking", bodyLocation, `${operation} request body became required`)
+            }
+            this.compareContent(bodyLocation, baseBody.content, currentBody.content, "request")
+        }
+
+        const baseResponses = baseOperation.responses ?? {}
+        const currentResponses = currentOperation.responses ?? {}
+        for (const status of Object.keys(baseResponses)) {
+            const responseLocation = [...location, "responses", status]
+            if (!(status in currentResponses)) {
+                this.add("breaking", responseLocation, `${operation} no longer returns ${status}`)
+                continue
+            }
+            this.compareContent(
+                responseLocation,
+                this.resolve(this.baseline, baseResponses[status])?.content,
+                this.resolve(this.current, currentResponses[status])?.content,
+                "response",
+            )
+        }
+        for (const status of Object.keys(currentResponses)) {
+            if (!(status in baseResponses)) {
+                this.add(
+                    "non-breaking",
+                    [...location, "responses", status],
+                    `${operation} now documents response ${status}`,
+                )
+            }
+        }
+    }
+
+    private compareParameters(
+        location: string[],
+        operation: string,
+        baseParameters: Schema[],
+        currentParameters: Schema[],
+    ): void {
+        const key = (parameter: Schema): string => `${parameter.in}:${parameter.name}`
+        const currentByKey = new Map(
+            currentParameters.map((parameter) => [key(parameter), parameter]),
+        )
+        const baseByKey = new Map(baseParameters.map((parameter) => [key(parameter), parameter]))
+
+        baseParameters.forEach((parameter, index) => {
+            const parameterLocation = [...location, "parameters", String(index)]
+            const name = `${parameter.in} parameter "${parameter.name}"`
+            const current = currentByKey.get(key(parameter))
+            if (!current) {
+                this.add("breaking", parameterLocation, `${operation} ${name} was removed`)
+                return
+            }
+            if (!parameter.required && current.required) {
+                this.add("breaking", parameterLocation, `${operation} ${name} became required`)
+            }
+            this.compareSchema(
+                [...parameterLocation, "schema"],
+                parameter.schema,
+                current.schema,
+                "request",
+                new Set(),
+            )
+        })
+
+        currentParameters.forEach((parameter, index) => {
+            if (baseByKey.has(key(parameter))) {
+                return
+            }
+            this.add(
+                parameter.required ? "breaking" : "non-breaking",
+                [...location, "parameters", String(index)],
+                `${operation} ${parameter.required ? "required" : "optional"} ${parameter.in} parameter "${parameter.name}" was added`,
+            )
+        })
+    }
+
+    private compareContent(
+        location: string[],
+        baseContent: Schema | undefined,
+        currentContent: Schema | undefined,
+        direction: Direction,
+    ): void {
+        for (const [mediaType, baseMedia] of Object.entries(baseContent ?? {})) {
+            const mediaLocation = [...location, "content", mediaType]
+            const currentMedia = currentContent?.[mediaType]
+            if (!currentMedia) {
+                this.add("breaking", mediaLocation, `Media type ${mediaType} was removed`)
+                continue
+            }
+            this.compareSchema(
+                [...mediaLocation, "schema"],
+                (baseMedia as Schema).schema,
+                currentMedia.schema,
+                direction,
+                new Set(),
+            )
+        }
+        for (const mediaType of Object.keys(currentContent ?? {})) {
+            if (!baseContent?.[mediaType]) {
+                this.add(
+                    "non-breaking",
+                    [...location, "content", mediaType],
+                    `Media type ${mediaType} was added`,
+                )
+            }
+        }
+    }
+
+    private compareSchema(
+        location: string[],
+        baseRaw: unknown,
+        currentRaw: unknown,
+        direction: Direction,
+        visited: Set<string>,
+    ): void {
+        const base = this.resolve(this.baseline, baseRaw)
+        const current = this.resolve(this.current, currentRaw)
+        if (!base || !current) {
+            return
+        }
+
+        const visitKey = `${JSON.stringify(baseRaw)}|${JSON.stringify(currentRaw)}`
+        if (visited.has(visitKey)) {
+            return
+        }
+        visited.add(visitKey)
+
+        this.compareTypes(location, base, current, direction)
+        this.compareAllowedValues(location, base, current)
+
+        this.compareProperties(location, base, current, direction, visited)
+
+        if (base.items && current.items) {
+            this.compareSchema(
+                [...location, "items"],
+                base.items,
+                current.items,
+                direction,
+                visited,
+            )
+        }
+
+        for (const keyword of COMPOSITION_KEYWORDS) {
+            this.compareVariants(location, keyword, base, current, direction, visited)
+        }
+    }
+
+    /**
+     * Compares types as sets, so a 3.1 type array and `nullable` are treated alike.
+     * An added type widens the accepted values, which breaks response readers;
+     * a removed type narrows them, which breaks request senders.
+     * @param {string[]} location Location of the schema
+     * @param {Schema} base Baseline schema
+     * @param {Schema} current Current schema
+     * @param {Direction} direction Whether the schema describes a request or a response
+     */
+    private compareTypes(
+        location: string[],
+        base: Schema,
+        current: Schema,
+        direction: Direction,
+    ): void {
+        const baseTypes = schemaTypes(base)
+        const currentTypes = schemaTypes(current)
+        const widened = direction === "response" ? "breaking" : "non-breaking"
+        const narrowed = direction === "request" ? "breaking" : "non-breaking"
+
+        if (!baseTypes.has("null") && currentTypes.has("null")) {
+            this.add(widened, location, "Value became nullable")
+        }
+        if (baseTypes.has("null") && !currentTypes.has("null")) {
+            this.add(narrowed, location, "Value is no longer nullable")
+        }
+
+        if (!base.type || !current.type) {
+            return
+        }
+        for (const type of currentTypes) {
+            if (type !== "null" && !baseTypes.has(type)) {
+                this.add(widened, location, `Type "${type}" was added`)
+            }
+        }
+        for (const type of baseTypes) {
+            if (type !== "null" && !currentTypes.has(type)) {
+                this.add(narrowed, location, `Type "${type}" was removed`)
+            }
+        }
+    }
+
+    /**
+     * Compares the values allowed by `enum` or `const`. A single-value enum and `const` are alike.
+     * @param {string[]} location Location of the schema
+     * @param {Schema} base Baseline schema
+     * @param {Schema} current Current schema
+     */
+    private compareAllowedValues(location: string[], base: Schema, current: Schema): void {
+        const baseValues = allowedValues(base)
+        const currentValues = allowedValues(current)
+
+        if (baseValues && currentValues) {
+            const removed = baseValues.filter((value) => !currentValues.includes(value))
+            const added = currentValues.filter((value) => !baseValues.includes(value))
+            if (removed.length > 0) {
+                this.add("breaking", location, `Enum narrowed: removed ${JSON.stringify(removed)}`)
+            }
+            if (added.length > 0) {
+                this.add("non-breaking", location, `Enum widened: added ${JSON.stringify(added)}`)
+            }
+        } else if (!baseValues && currentValues) {
+            this.add(
+                "breaking",
+                location,
+                `Values are now restricted to ${JSON.stringify(currentValues)}`,
+            )
+        }
+    }
+
+    /**
+     * Compares the variants of a composition keyword. Variants are matched by `$ref`, inline ones
+     * by position. A removed oneOf/anyOf variant is breaking; an allOf member adds constraints,
+     * so adding one breaks requests and removing one breaks responses.
+     * @param {string[]} location Location of the schema
+     * @param {string} keyword oneOf, anyOf or allOf
+     * @param {Schema} base Baseline schema
+     * @param {Schema} current Current schema
+     * @param {Direction} direction Whether the schema describes a request or a response
+     * @param {Set<string>} visited Schema pairs already compared
+     */
+    private compareVariants(
+        location: string[],
+        keyword: string,
+        base: Schema,
+        current: Schema,
+        direction: Direction,
+        visited: Set<string>,
+    ): void {
+        const baseVariants: unknown[] = Array.isArray(base[keyword]) ? base[keyword] : []
+        const currentVariants: unknown[] = Array.isArray(current[keyword]) ? current[keyword] : []
+        const currentByKey = new Map(
+            currentVariants.map((variant, index) => [variantKey(variant, index), variant]),
+        )
+        const baseKeys = new Set(baseVariants.map((variant, index) => variantKey(variant, index)))
+
+        baseVariants.forEach((variant, index) => {
+            const key = variantKey(variant, index)
+            const variantLocation = [...location, keyword, String(index)]
+            if (!currentByKey.has(key)) {
+                this.add(
+                    keyword !== "allOf" || direction === "response" ? "breaking" : "non-breaking",
+                    variantLocation,
+                    `${keyword} variant ${key} was removed`,
+                )
+                return
+            }
+            this.compareSchema(variantLocation, variant, currentByKey.get(key), direction, visited)
+        })
+
+        currentVariants.forEach((variant, index) => {
+            const key = variantKey(variant, index)
+            if (baseKeys.has(key)) {
+                return
+            }
+            this.add(
+                keyword === "allOf" && direction === "request" ? "breaking" : "non-breaking",
+                [...location, keyword, String(index)],
+                `${keyword} variant ${key} was added`,
+            )
+        })
+    }
+
+    private compareProperties(
+        location: string[],
+        base: Schema,
+        current: Schema,
+        direction: Direction,
+        visited: Set<string>,
+    ): void {
+        const baseProperties: Schema = base.properties ?? {}
+        const currentProperties: Schema = current.properties ?? {}
+        const baseRequired: string[] = base.required ?? []
+        const currentRequired: string[] = current.required ?? []
+
+        for (const name of Object.keys(baseProperties)) {
+            const propertyLocation = [...location, "properties", name]
+            if (!(name in currentProperties)) {
+                this.add(
+                    direction === "response" ? "breaking" : "non-breaking",
+                    propertyLocation,
+                    `${direction === "response" ? "Response" : "Request"} field "${name}" was removed`,
+                )
+                continue
+            }
+
+            const wasRequired = baseRequired.includes(name)
+            const isRequired = currentRequired.includes(name)
+            if (!wasRequired && isRequired) {
+                this.add(
+                    direction === "request" ? "breaking" : "non-breaking",
+                    propertyLocation,
+                    `Field "${name}" became required`,
+                )
+            } else if (wasRequired && !isRequired) {
+                this.add(
+                    direction === "response" ? "breaking" : "non-breaking",
+                    propertyLocation,
+                    `Field "${name}" became optional`,
+                )
+            }
+
+            this.compareSchema(
+                propertyLocation,
+                baseProperties[name],
+                currentProperties[name],
+                direction,
+                visited,
+            )
+        }
+
+        for (const name of Object.keys(currentProperties)) {
+            if (name in baseProperties) {
+                continue
+            }
+            const required = currentRequired.includes(name)
+            this.add(
+                direction === "request" && required ? "breaking" : "non-breaking",
+                [...location, "properties", name],
+                `${required ? "Required" : "Optional"} ${direction} field "${name}" was added`,
+            )
+        }
+    }
+
+    /**
+     * Follows local `$ref`s to the referenced object.
+     * @param {Document} document Document the reference belongs to
+     * @param {unknown} value Object that may be a reference
+     * @returns {Schema | undefined} Referenced object
+     */
+    private resolve(document: Document, value: unknown): Schema | undefined {
+        let resolved = value as Schema | undefined
+        const seen = new Set<string>()
+        while (resolved && typeof resolved.$ref === "string" && !seen.has(resolved.$ref)) {
+            seen.add(resolved.$ref)
+            resolved = resolved.$ref
+                .replace(/^#\//, "")
+                .split("/")
+                .map((segment: string) => segment.replace(/~1/g, "/").replace(/~0/g, "~"))
+                .reduce<any>((node, segment) => node?.[segment], document)
+        }
+        return resolved
+    }
+
+    private add(kind: SpecChangeKind, location: string[], message: string): void {
+        this.changes.push({ kind, pointer: toPointer(location), message })
+    }
+}
+
+/**
+ * Formats a change as a single log line.
+ * @param {SpecChange} change Spec change
+ * @returns {string} Change with its JSON pointer
+ */
+export const formatSpecChange = (change: SpecChange): string =>
+    `[${change.kind}] ${change.message} (${change.pointer})`
@@ -15,11 +15,18 @@
  */
 
 import logger from "../../config/logger"
-import { exportOASToJSON } from "./commands"
+import { checkOASDrift, exportOASToJSON } from "./commands"
+import { getOpenAPIBaselinePath } from "../../config/getOpenAPIConfig"
 import { OpenAPIGenerator } from "./OpenAPIGenerator"
 import { getOutputPath } from "../../config/getOutputPath"
 import * as path from "path"
 import { generateDocs } from "../../../script/makedocs"
+
+/**
+ * Time the after-all hook waits for OAS and document generation
+ */
+const OAS_GENERATION_TIMEOUT = 60_000
+
 /**
  * TestEventManager is a singleton class that manages test events and tracks test status.
  *
@@ -28,6 +35,7 @@ import { generateDocs } from "../../../script/makedocs"
  * - Test completion tracking: Updates completed test count whenever tests succeed or fail.
  * - When all tests are completed, automatically generates OpenAPI spec (OAS) if there are no failed tests.
  *   OAS is saved to a file in JSON format, followed by document (Markdown, HTML) generation tasks.
+ * - Generation failures fail the test run through an after-all hook the runner awaits.
  * @class TestEventManager
  * @singleton
  */
@@ -38,6 +46,8 @@ export class TestEventManager {
     private failedTests = 0
     private oasAlreadyGenerated = false
     private oasGenerationScheduled = false
+    private oasGeneration?: Promise<void>
+    private generationHookRegistered = false
 
     public static getInstance(): TestEventManager {
         if (!TestEventManager.instance) {
@@ -46,6 +56,30 @@ export class TestEventManager {
         return TestEventManager.instance
     }
 
+    /**
+     * Registers the after-all hook that waits for OAS generation and fails the run when it fails.
+     * Only the first call registers the hook, so call it while the top-level suites are collected.
+     * @param {Function} afterAll After-all hook of the test framework
+     */
+    public registerGenerationHook(
+        afterAll: (fn: () => Promise<void>, timeout?: number) => void,
+    ): void {
+        if (this.generationHookRegistered) {
+            return
+        }
+        this.generationHookRegistered = true
+        afterAll(() => this.waitForOASGeneration(), OAS_GENERATION_TIMEOUT)
+    }
+
+    /**
+     * Waits for the OAS generation started when the last test completed.
+     * @returns {Promise<void>} Resolves when generation succeeded or was not started
+     * @throws {Error} When generation failed
+     */
+    public async waitForOASGeneration(): Promise<void> {
+        await this.oasGeneration
+    }
+
     public registerTest(): void {
         this.testCount++
         logger.debug(`Test registered: Currently ${this.testCount} tests total`)
@@ -83,14 +117,19 @@ export class TestEventManager {
             logger.error(`[OAS_GENERATION_SKIPPED] Number of failed tests: ${this.failedTests}`)
             return
         }
-        try {
-            this.generateOAS()
-        } catch (error) {
+        this.oasGeneration = this.generateOAS()
+        this.oasGeneration.catch((error) => {
             logger.error("Error occurred during OAS generation:", error)
-        }
+        })
     }
 
-    private generateOAS(): void {
+    /**
+     * Writes oas.json, compares it with the baseline document and generates the documents.
+     * @returns {Promise<void>} Resolves once the documents are generated
+     * @throws {Error} When the document cannot be exported, the baseline cannot be read
+     * or the API contract has breaking changes
+     */
+    private async generateOAS(): Promise<void> {
         if (this.oasAlreadyGenerated) {
             return
         }
@@ -98,9 +137,15 @@ export class TestEventManager {
         const oasPath = path.resolve(outputPath, "oas.json")
 
         const oasGenerator = OpenAPIGenerator.getInstance()
-        exportOASToJSON(oasGenerator, oasPath)
         this.oasAlreadyGenerated = true
+        await exportOASToJSON(oasGenerator, oasPath)
         logger.info(`OAS generation completed: ${oasPath}`)
-        generateDocs(oasPath, outputPath)
+
+        const baselinePath = getOpenAPIBaselinePath()
+        const drifted = !!baselinePath && !checkOASDrift(baselinePath, oasPath)
+        await generateDocs(oasPath, outputPath)
+        if (drifted) {
+            throw new Error(`[OAS_BREAKING_CHANGE] The API contract drifted from ${baselinePath}`)
+        }
     }
 }
@@ -15,11 +15,13 @@
  */
 
 import { TestResult } from "../../types/TestResult"
-import { ParameterObject } from "../../types/OpenAPITypes"
+import { ParameterObject, SecuritySchemeObject } from "../../types/OpenAPITypes"
 import { ParameterBuilderInterface } from "./interfaces"
 import { isDSLField } from "../../../interface/field"
 import { SchemaBuilder } from "../schema"
 import { UtilityBuilder } from "./UtilityBuilder"
+import { findApiKeyScheme } from "./SecurityBuilder"
+import { getOpenAPISecuritySchemes } from "../../../../config/getOpenAPIConfig"
 
 /**
  * Builder class responsible for creating OpenAPI Parameter objects
@@ -27,8 +29,20 @@ import { UtilityBuilder } from "./UtilityBuilder"
 export class ParameterBuilder implements ParameterBuilderInterface {
     private utilityBuilder = new UtilityBuilder()
 
+    /**
+     * Constructor
+     * @param {Record<string, SecuritySchemeObject>} declaredSchemes Security schemes declared in the itdoc config
+     */
+    public constructor(
+        private readonly declaredSchemes: Record<
+            string,
+            SecuritySchemeObject
+        > = getOpenAPISecuritySchemes(),
+    ) {}
+
     /**
      * Extracts parameters from test results.
+     * API keys of declared `apiKey` schemes are documented as security requirements instead.
      * @param {TestResult} result Test result
      * @returns {ParameterObject[]} Array of parameter objects
      */
@@ -47,7 +61,13 @@ export class ParameterBuilder implements ParameterBuilderInterface {
             parameters.push(...this.extractHeaderParameters(result.request.headers))
         }
 
-        return parameters
+        if (result.request.cookies) {
+            parameters.push(...this.extractCookieParameters(result.request.cookies))
+        }
+
+        return parameters.filter(
+            (parameter) => !findApiKeyScheme(this.declaredSchemes, parameter.in, parameter.name),
+        )
     }
 
     /**
@@ -177,4 +197,33 @@ export class ParameterBuilder implements ParameterBuilderInterface {
 
         return parameters
     }
+
+    /**
+     * Extracts cookie parameters.
+     * @param {Record<string, any>} cookies Cookie object
+     * @returns {ParameterObject[]} Array of parameter objects
+     */
+    private extractCookieParameters(cookies: Record<string, any>): ParameterObject[] {
+        const parameters: ParameterObject[] = []
+
+        for (const [name, value] of Object.entries(cookies)) {
+            if (value === undefined) continue
+
+            const param: ParameterObject = {
+                name,
+                in: "cookie",
+                schema: SchemaBuilder.inferSchema(value, false) as Record<string, any>,
+                required: isDSLField(value) ? value.required : false,
+                example: this.utilityBuilder.extractSimpleExampleValue(value),
+            }
+
+            if (isDSLField(value) && value.description) {
+                param.description = value.description
+            }
+
+            parameters.push(param)
+        }
+
+        return parameters
+    }
 }
@@ -15,11 +15,17 @@
  */
 
 import { TestResult } from "../../types/TestResult"
-import { Content, RequestBodyObject } from "../../types/OpenAPITypes"
+import {
+    Content,
+    EncodingObject,
+    MediaTypeObject,
+    RequestBodyObject,
+} from "../../types/OpenAPITypes"
 import { RequestBodyBuilderInterface } from "./interfaces"
 import { SchemaBuilder } from "../schema"
 import { UtilityBuilder } from "./UtilityBuilder"
 import { isDSLField } from "../../../interface/field"
+import { isDSLRequestFile } from "../../../interface/file"
 import logger from "../../../../config/logger"
 
 /**
@@ -52,6 +58,10 @@ export class RequestBodyBuilder implements RequestBodyBuilderInterface {
             }
         }
 
+        if (result.request.form) {
+            return this.generateMultipartRequestBody(result.request.form)
+        }
+
         if (result.request.body) {
             const schema = SchemaBuilder.inferSchema(result.request.body) as Record<string, any>
             const content: Content = {
@@ -73,12 +83,68 @@ export class RequestBodyBuilder implements RequestBodyBuilderInterface {
         return undefined
     }
 
+    /**
+     * Generates a multipart/form-data request body with one encoding entry per part.
+     * @param {Record<string, unknown>} form Form parts keyed by part name
+     * @returns {RequestBodyObject} Request body object
+     */
+    private generateMultipartRequestBody(form: Record<string, unknown>): RequestBodyObject {
+        const properties: Record<string, Record<string, any>> = {}
+        const encoding: Record<string, EncodingObject> = {}
+        const required: string[] = []
+        const example: Record<string, unknown> = {}
+
+        for (const [name, part] of Object.entries(form)) {
+            if (isDSLRequestFile(part)) {
+                properties[name] = { type: "string", format: "binary" }
+                if (part.description) {
+                    properties[name].description = part.description
+                }
+                encoding[name] = { contentType: part.opts.contentType }
+                required.push(name)
+                continue
+            }
+
+            properties[name] = SchemaBuilder.inferSchema(part) as Record<string, any>
+            const value = this.utilityBuilder.extractSimpleExampleValue(part)
+            encoding[name] = {
+                contentType:
+                    value !== null && typeof value === "object" ? "application/json" : "text/plain",
+            }
+            if (!isDSLField(part) || part.required) {
+                required.push(name)
+            }
+            if (typeof value !== "function") {
+                example[name] = value
+            }
+        }
+
+        const schema: Record<string, any> = { type: "object", properties }
+        if (required.length > 0) {
+            schema.required = required
+        }
+
+        const mediaType: MediaTypeObject = { schema, encoding }
+        if (Object.keys(example).length > 0) {
+            mediaType.example = example
+        }
+
+        return {
+            content: { "multipart/form-data": mediaType },
+            required: true,
+        }
+    }
+
     /**
      * Gets the Content-Type of the request.
      * @param request Request object
      * @returns Content-Type value
      */
     private getContentType(request: TestResult["request"]): string {
+        if (request.contentType) {
+            return request.contentType
+        }
+
         if (request.headers && "content-type" in request.headers) {
             const contentType = request.headers["content-type"]
             if (typeof contentType === "string") {
@@ -88,6 +154,10 @@ export class RequestBodyBuilder implements RequestBodyBuilderInterface {
             }
         }
 
+        if (typeof request.body === "string") {
+            return "text/plain"
+        }
+
         logger.warn("Content-Type header not found. Falling back to default 'application/json'.")
         return "application/json"
     }
@@ -19,6 +19,9 @@ import { Content, HeaderObject, ResponseObject } from "../../types/OpenAPITypes"
 import { ResponseBuilderInterface } from "./interfaces"
 import { SchemaBuilder } from "../schema"
 import { UtilityBuilder } from "./UtilityBuilder"
+import { DSLResponseCookie } from "../../../interface/cookie"
+import { parseSetCookie } from "../../../../utils/cookie"
+import { DSLField, isDSLField } from "../../../interface/field"
 
 /**
  * Builder class responsible for creating OpenAPI Response objects
@@ -61,6 +64,15 @@ export class ResponseBuilder implements ResponseBuilderInterface {
                     "upgrade",
                 ]
 
+                if (result.response.cookies) {
+                    skipHeaders.push("set-cookie")
+                }
+
+                const expectedHeaders = result.response.expectedHeaders ?? {}
+                for (const name of Object.keys(expectedHeaders)) {
+                    skipHeaders.push(name.toLowerCase())
+                }
+
                 for (const [name, value] of Object.entries(result.response.headers)) {
                     // Skip default headers
                     if (skipHeaders.includes(name.toLowerCase())) {
@@ -72,13 +84,36 @@ export class ResponseBuilder implements ResponseBuilderInterface {
                     }
                 }
 
+                for (const [name, expected] of Object.entries(expectedHeaders)) {
+                    // OpenAPI ignores a response header named Content-Type
+                    if (name.toLowerCase() !== "content-type") {
+                        headers[name] = this.generateExpectedHeader(
+                            expected,
+                            result.response.headers[name.toLowerCase()],
+                        )
+                    }
+                }
+
+                if (result.response.cookies) {
+                    headers["Set-Cookie"] = this.generateSetCookieHeader(
+                        result.response.cookies,
+                        result.response.headers["set-cookie"],
+                    )
+                }
+
                 // Add only when there is at least one header
                 if (Object.keys(headers).length > 0) {
                     responses[statusCode].headers = headers
                 }
             }
 
-            if (result.response.body) {
+            if (result.response.file) {
+                responses[statusCode].content = {
+                    [result.response.file.contentType]: {
+                        schema: { type: "string", format: "binary" },
+                    },
+                }
+            } else if (result.response.body) {
                 const contentType =
                     result.response.headers && "content-type" in result.response.headers
                         ? String(result.response.headers["content-type"])
@@ -100,25 +135,89 @@ export class ResponseBuilder implements ResponseBuilderInterface {
             }
         }
 
-        this.addDefaultResponses(responses, result.method)
-
         return responses
     }
 
     /**
-     * Adds appropriate default responses based on request method.
-     * @param {Record<string, ResponseObject>} responses Current response map
-     * @param {string} method HTTP method
+     * Documents a response header declared in the test.
+     * The description and constraints come from the DSL field, and the example from the actual response.
+     * @param {DSLField | string | RegExp} expected Expected header value
+     * @param {unknown} actualValue Header value actually returned
+     * @returns {HeaderObject} Header object
      */
-    private addDefaultResponses(responses: Record<string, ResponseObject>, method: string): void {
-        const has4xx = Object.keys(responses).some((status) => status.startsWith("4"))
+    private generateExpectedHeader(
+        expected: DSLField | string | RegExp,
+        actualValue: unknown,
+    ): HeaderObject {
+        let description: string | undefined
+        let schema: Record<string, any> = { type: "string" }
+        let example: unknown = actualValue
+
+        if (isDSLField(expected)) {
+            const {
+                description: fieldDescription,
+                example: fieldExample,
+                ...fieldSchema
+            } = SchemaBuilder.inferSchema(expected) as Record<string, any>
+            description = fieldDescription
+            schema = fieldSchema
+            example ??= fieldExample
+        } else if (expected instanceof RegExp) {
+            // Flags such as i cannot be carried by pattern, so a flagged RegExp documents no pattern
+            schema =
+                expected.flags.replace("u", "") === ""
+                    ? { type: "string", pattern: expected.source }
+                    : { type: "string" }
+        } else {
+            example ??= expected
+        }
 
-        if (!has4xx) {
-            responses["400"] = { description: "Bad Request" }
+        const header: HeaderObject = description ? { description, schema } : { schema }
+        if (example !== undefined) {
+            header.example = Array.isArray(example) ? example.join(", ") : example
+        }
+        return header
+    }
 
-            if (!["OPTIONS", "HEAD"].includes(method.toUpperCase())) {
-                responses["404"] = { description: "Not Found" }
-            }
+    /**
+     * Documents the expected cookies as a single `Set-Cookie` header.
+     * @param {Record<string, DSLResponseCookie>} cookies Expected cookies keyed by cookie name
+     * @param {unknown} actualSetCookie `Set-Cookie` header values actually returned
+     * @returns {HeaderObject} Header object describing the cookies and their attributes
+     */
+    private generateSetCookieHeader(
+        cookies: Record<string, DSLResponseCookie>,
+        actualSetCookie: unknown,
+    ): HeaderObject {
+        const description = Object.entries(cookies)
+            .map(([name, cookie]) => {
+                const attributes = [
+                    cookie.httpOnly ? "HttpOnly" : undefined,
+                    cookie.secure ? "Secure" : undefined,
+                    cookie.sameSite ? `SameSite=${cookie.sameSite}` : undefined,
+                    cookie.maxAge !== undefined ? `Max-Age=${cookie.maxAge}` : undefined,
+                    cookie.path ? `Path=${cookie.path}` : undefined,
+                    cookie.domain ? `Domain=${cookie.domain}` : undefined,
+                ].filter(Boolean)
+                const text = cookie.description
+                    ? `\`${name}\`: ${cookie.description}`
+                    : `\`${name}\``
+                return attributes.length > 0 ? `${text} (${attributes.join("; ")})` : text
+            })
+            .join("\n")
+
+        const header: HeaderObject = {
+            description,
+            schema: { type: "string" },
         }
+
+        const examples = (Array.isArray(actualSetCookie) ? actualSetCookie : [actualSetCookie])
+            .filter((value): value is string => typeof value === "string")
+            .filter((value) => parseSetCookie(value).name in cookies)
+        if (examples.length > 0) {
+            header.example = examples[0]
+        }
+
+        return header
     }
 }
@@ -15,8 +15,33 @@
  */
 
 import { TestResult } from "../../types/TestResult"
+import { SecuritySchemeObject } from "../../types/OpenAPITypes"
 import { SecurityBuilderInterface } from "./interfaces"
 import { isDSLField } from "../../../interface/field"
+import { getOpenAPISecuritySchemes } from "../../../../config/getOpenAPIConfig"
+
+/**
+ * Finds the declared `apiKey` scheme whose key is sent as the given request input.
+ * Header names are compared case-insensitively.
+ * @param {Record<string, SecuritySchemeObject>} schemes Declared security schemes
+ * @param {string} location Input location (`header`, `query` or `cookie`)
+ * @param {string} name Input name
+ * @returns {string | undefined} Scheme name, or undefined when the input is not an API key
+ */
+export function findApiKeyScheme(
+    schemes: Record<string, SecuritySchemeObject>,
+    location: string,
+    name: string,
+): string | undefined {
+    const matches = (schemeName?: string): boolean =>
+        location === "header"
+            ? schemeName?.toLowerCase() === name.toLowerCase()
+            : schemeName === name
+    const found = Object.entries(schemes).find(
+        ([, scheme]) => scheme.type === "apiKey" && scheme.in === location && matches(scheme.name),
+    )
+    return found?.[0]
+}
 
 /**
  * Builder class responsible for generating OpenAPI Security requirements
@@ -24,56 +49,44 @@ import { isDSLField } from "../../../interface/field"
 export class SecurityBuilder implements SecurityBuilderInterface {
     private securitySchemes: Record<string, any> = {}
 
+    /**
+     * Constructor
+     * @param {Record<string, SecuritySchemeObject>} declaredSchemes Security schemes declared in the itdoc config
+     */
+    public constructor(
+        private readonly declaredSchemes: Record<
+            string,
+            SecuritySchemeObject
+        > = getOpenAPISecuritySchemes(),
+    ) {}
+
     /**
      * Extracts security requirements from test results.
+     * A scheme referenced with `req().auth()` is used as declared with its required scopes.
+     * Otherwise the schemes are inferred from the `authorization` header and
+     * the API keys of declared `apiKey` schemes sent in the request.
      * @param {TestResult} result Test result
      * @returns {Array<Record<string, string[]>>} Array of security requirements
      */
     public extractSecurityRequirements(result: TestResult): Array<Record<string, string[]>> {
         const security: Array<Record<string, string[]>> = []
 
-        if (result.request.headers && "authorization" in result.request.headers) {
-            const authHeaderValue = result.request.headers["authorization"]
-            let authHeader = ""
-
-            if (typeof authHeaderValue === "string") {
-                authHeader = authHeaderValue
-            } else if (isDSLField(authHeaderValue)) {
-                const example = authHeaderValue.example
-                authHeader = typeof example === "string" ? example : String(example)
+        const auth = result.request.auth
+        if (auth && this.declaredSchemes[auth.scheme]) {
+            this.securitySchemes[auth.scheme] = this.declaredSchemes[auth.scheme]
+            security.push({ [auth.scheme]: [...auth.scopes] })
+        } else {
+            // Credentials sent together are all required, so they form a single requirement
+            const requirement: Record<string, string[]> = {}
+            const authorizationKey = this.inferAuthorizationScheme(result.request.headers)
+            if (authorizationKey) {
+                requirement[authorizationKey] = []
             }
-
-            if (authHeader) {
-                if (authHeader.startsWith("Bearer ")) {
-                    const bearerKey = "BearerAuth"
-                    if (!this.securitySchemes[bearerKey]) {
-                        this.securitySchemes[bearerKey] = {
-                            type: "http",
-                            scheme: "bearer",
-                            bearerFormat: "JWT",
-                        }
-                    }
-                    security.push({ [bearerKey]: [] })
-                } else if (authHeader.startsWith("Basic ")) {
-                    const basicKey = "BasicAuth"
-                    if (!this.securitySchemes[basicKey]) {
-                        this.securitySchemes[basicKey] = {
-                            type: "http",
-                            scheme: "basic",
-                        }
-                    }
-                    security.push({ [basicKey]: [] })
-                } else {
-                    const apiKeyKey = "ApiKeyAuth"
-                    if (!this.securitySchemes[apiKeyKey]) {
-                        this.securitySchemes[apiKeyKey] = {
-                            type: "apiKey",
-                            name: "Authorization",
-                            in: "header",
-                        }
-                    }
-                    security.push({ [apiKeyKey]: [] })
-                }
+            for (const apiKeyKey of this.extractApiKeySchemes(result)) {
+                requirement[apiKeyKey] = []
+            }
+            if (Object.keys(requirement).length > 0) {
+                security.push(requirement)
             }
         }
 
@@ -84,6 +97,104 @@ export class SecurityBuilder implements SecurityBuilderInterface {
         return security
     }
 
+    /**
+     * Infers the scheme of the `authorization` header.
+     * @param {Record<string, unknown>} [headers] Request headers
+     * @returns {string | undefined} Name of the registered scheme, or undefined without the header
+     */
+    private inferAuthorizationScheme(headers?: Record<string, unknown>): string | undefined {
+        if (!headers || !("authorization" in headers)) {
+            return undefined
+        }
+
+        const authHeaderValue = headers["authorization"]
+        let authHeader = ""
+
+        if (typeof authHeaderValue === "string") {
+            authHeader = authHeaderValue
+        } else if (isDSLField(authHeaderValue)) {
+            const example = authHeaderValue.example
+            authHeader = typeof example === "string" ? example : String(example)
+        }
+
+        if (!authHeader) {
+            return undefined
+        }
+        if (authHeader.startsWith("Bearer ")) {
+            return this.registerScheme("BearerAuth", {
+                type: "http",
+                scheme: "bearer",
+                bearerFormat: "JWT",
+            })
+        }
+        if (authHeader.startsWith("Basic ")) {
+            return this.registerScheme("BasicAuth", {
+                type: "http",
+                scheme: "basic",
+            })
+        }
+        return this.registerScheme("ApiKeyAuth", {
+            type: "apiKey",
+            name: "Authorization",
+            in: "header",
+        })
+    }
+
+    /**
+     * Registers the declared `apiKey` schemes whose key is sent in a header, query parameter or cookie.
+     * @param {TestResult} result Test result
+     * @returns {string[]} Names of the registered schemes
+     */
+    private extractApiKeySchemes(result: TestResult): string[] {
+        const inputs: Record<string, Record<string, unknown> | undefined> = {
+            header: result.request.headers,
+            query: result.request.queryParams,
+            cookie: result.request.cookies,
+        }
+
+        const keys: string[] = []
+        for (const [location, values] of Object.entries(inputs)) {
+            for (const [name, value] of Object.entries(values ?? {})) {
+                if (value === undefined || name.toLowerCase() === "authorization") {
+                    continue
+                }
+                const key = findApiKeyScheme(this.declaredSchemes, location, name)
+                if (key && !keys.includes(key)) {
+                    this.securitySchemes[key] = this.declaredSchemes[key]
+                    keys.push(key)
+                }
+            }
+        }
+        return keys
+    }
+
+    /**
+     * Registers the scheme inferred from a request.
+     * A declared scheme of the same kind takes precedence over the inferred one.
+     * @param {string} defaultKey Scheme name used when no matching scheme is declared
+     * @param {SecuritySchemeObject} inferred Inferred scheme
+     * @returns {string} Name of the registered scheme
+     */
+    private registerScheme(defaultKey: string, inferred: SecuritySchemeObject): string {
+        const declared = Object.entries(this.declaredSchemes).find(
+            ([, scheme]) =>
+                scheme.type === inferred.type &&
+                scheme.scheme?.toLowerCase() === inferred.scheme &&
+                (scheme.type !== "apiKey" ||
+                    (scheme.in === inferred.in &&
+                        scheme.name?.toLowerCase() === inferred.name?.toLowerCase())),
+        )
+        if (declared) {
+            this.securitySchemes[declared[0]] = declared[1]
+            return declared[0]
+        }
+
+        if (!this.securitySchemes[defaultKey]) {
+            this.securitySchemes[defaultKey] = inferred
+        }
+        return defaultKey
+    }
+
     /**
      * Gets security schemas.
      * @returns {Record<string, any>} Currently registered security schema map
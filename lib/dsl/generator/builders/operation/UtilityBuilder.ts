@@ -17,17 +17,36 @@
 import { TestResult } from "../../types/TestResult"
 import { UtilityBuilderInterface } from "./interfaces"
 import { isDSLField } from "../../../interface/field"
+import { getOperationIdStrategy } from "../../../../config/getOpenAPIConfig"
+import { ApiDocOptions } from "../../../interface"
 
 /**
  * OpenAPI Operation utility function class
  */
 export class UtilityBuilder implements UtilityBuilderInterface {
+    /**
+     * Constructor
+     * @param {"default" | "camelCase"} operationIdStrategy operationId strategy (`itdoc.document.operationIdStrategy`)
+     */
+    public constructor(
+        private readonly operationIdStrategy: "default" | "camelCase" = getOperationIdStrategy(),
+    ) {}
+
     /**
      * Generates operationId from test results.
+     * `ApiDocOptions.operationId` takes precedence over the configured strategy.
      * @param {TestResult} result Test result
      * @returns {string} Generated operationId
      */
     public generateOperationId(result: TestResult): string {
+        if (result.options?.operationId) {
+            return result.options.operationId
+        }
+
+        if (this.operationIdStrategy === "camelCase") {
+            return this.generateCamelCaseOperationId(result)
+        }
+
         const method = result.method.toLowerCase()
         const pathSegments = result.url.split("/").filter(Boolean)
         const processedSegments = pathSegments.map((segment) => {
@@ -54,6 +73,42 @@ export class UtilityBuilder implements UtilityBuilderInterface {
         return `${method}${path.charAt(0).toUpperCase() + path.slice(1)}`
     }
 
+    /**
+     * Generates a camelCase operationId, treating `-`, `_` and `.` as word boundaries
+     * and keeping existing camel humps (e.g. `GET /v1/user-list/:userId` → `getV1UserListByUserId`).
+     * @param {TestResult} result Test result
+     * @returns {string} Generated operationId
+     */
+    private generateCamelCaseOperationId(result: TestResult): string {
+        const toPascalCase = (text: string): string =>
+            text
+                .split(/[^a-zA-Z0-9]+/)
+                .filter(Boolean)
+                .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+                .join("")
+
+        const path = result.url
+            .split("/")
+            .filter(Boolean)
+            .map((segment) => {
+                const param = segment.match(/^:(.+)$/) ?? segment.match(/^\{(.+)\}$/)
+                return param ? `By${toPascalCase(param[1])}` : toPascalCase(segment)
+            })
+            .join("")
+
+        return `${result.method.toLowerCase()}${path || "Root"}`
+    }
+
+    /**
+     * Collects the tags of an API: `tag` first, then `tags`, without duplicates.
+     * @param {ApiDocOptions} options describeAPI options
+     * @returns {string[]} Operation tags
+     */
+    public collectTags(options: ApiDocOptions | undefined): string[] {
+        const tags = [options?.tag, ...(options?.tags ?? [])].filter((tag): tag is string => !!tag)
+        return Array.from(new Set(tags))
+    }
+
     /**
      * Generates default tag from path.
      * @param {string} path API path
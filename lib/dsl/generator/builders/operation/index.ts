@@ -46,8 +46,9 @@ export class OperationBuilder implements OperationBuilderInterface {
      * @returns {Record<string, unknown>} OpenAPI Operation object
      */
     public generateOperation(result: TestResult): Record<string, unknown> {
+        const tags = this.utilityBuilder.collectTags(result.options)
         const operation: Record<string, unknown> = {
-            tags: [result.options.tag || this.utilityBuilder.generateDefaultTag(result.url)],
+            tags: tags.length > 0 ? tags : [this.utilityBuilder.generateDefaultTag(result.url)],
         }
 
         operation.operationId = this.utilityBuilder.generateOperationId(result)
@@ -77,6 +78,15 @@ export class OperationBuilder implements OperationBuilderInterface {
         return operation
     }
 
+    /**
+     * Extracts the security requirements of a single test result.
+     * @param {TestResult} result Test result
+     * @returns {Array<Record<string, string[]>>} Array of security requirements
+     */
+    public extractSecurityRequirements(result: TestResult): Array<Record<string, string[]>> {
+        return this.securityBuilder.extractSecurityRequirements(result)
+    }
+
     /**
      * Gets the security schemes.
      * @returns {Record<string, any>} Currently registered security schema map
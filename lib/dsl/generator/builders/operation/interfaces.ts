@@ -16,6 +16,7 @@
 
 import { TestResult } from "../../types/TestResult"
 import { ParameterObject, RequestBodyObject, ResponseObject } from "../../types/OpenAPITypes"
+import { ApiDocOptions } from "../../../interface"
 
 /**
  * Interface for creating OpenAPI Operation objects
@@ -94,6 +95,13 @@ export interface UtilityBuilderInterface {
      */
     generateOperationId(result: TestResult): string
 
+    /**
+     * Collects the tags of an API: `tag` first, then `tags`, without duplicates.
+     * @param {ApiDocOptions} options describeAPI options
+     * @returns {string[]} Operation tags
+     */
+    collectTags(options: ApiDocOptions | undefined): string[]
+
     /**
      * Generates default tag from path.
      * @param {string} path API path
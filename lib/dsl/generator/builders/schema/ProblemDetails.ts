@@ -0,0 +1,89 @@
+/*
+ * Copyright 2025 the original author or authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { SCHEMA_NAME_EXTENSION } from "./constants"
+
+type Schema = Record<string, unknown>
+
+/**
+ * Component name of the RFC 7807 problem details schema
+ */
+export const PROBLEM_DETAILS_SCHEMA_NAME = "ProblemDetails"
+
+/**
+ * Members defined by RFC 7807 for `application/problem+json` bodies
+ */
+const PROBLEM_DETAILS_PROPERTIES: Record<string, Schema> = {
+    type: {
+        type: "string",
+        format: "uri-reference",
+        description: "A URI reference that identifies the problem type",
+        default: "about:blank",
+    },
+    title: {
+        type: "string",
+        description: "A short, human-readable summary of the problem type",
+    },
+    status: {
+        type: "integer",
+        description: "The HTTP status code generated by the origin server for this occurrence",
+    },
+    detail: {
+        type: "string",
+        description: "A human-readable explanation specific to this occurrence of the problem",
+    },
+    instance: {
+        type: "string",
+        format: "uri-reference",
+        description: "A URI reference that identifies the specific occurrence of the problem",
+    },
+}
+
+/**
+ * Documents an inferred `application/problem+json` schema against RFC 7807.
+ * The standard members are described by the shared `ProblemDetails` component,
+ * and only extension members are kept from the inferred schema.
+ * @param {Schema} schema Schema inferred from the response bodies
+ * @returns {Schema} Problem details schema
+ */
+export function toProblemDetailsSchema(schema: Schema): Schema {
+    const problemDetails: Schema = {
+        type: "object",
+        properties: { ...PROBLEM_DETAILS_PROPERTIES },
+        [SCHEMA_NAME_EXTENSION]: PROBLEM_DETAILS_SCHEMA_NAME,
+    }
+
+    const properties = (schema.properties ?? {}) as Record<string, unknown>
+    const extensionNames = Object.keys(properties).filter(
+        (name) => !(name in PROBLEM_DETAILS_PROPERTIES),
+    )
+    if (extensionNames.length === 0) {
+        return problemDetails
+    }
+
+    const extension: Schema = {
+        type: "object",
+        properties: Object.fromEntries(extensionNames.map((name) => [name, properties[name]])),
+    }
+    const required = Array.isArray(schema.required)
+        ? (schema.required as string[]).filter((name) => extensionNames.includes(name))
+        : []
+    if (required.length > 0) {
+        extension.required = required
+    }
+
+    return { allOf: [problemDetails, extension] }
+}
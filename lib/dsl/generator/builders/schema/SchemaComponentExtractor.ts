@@ -0,0 +1,282 @@
+/*
+ * Copyright 2025 the original author or authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { SCHEMA_NAME_EXTENSION } from "./constants"
+import logger from "../../../../config/logger"
+
+type Schema = Record<string, unknown>
+type SchemaVisitor = (schema: unknown, hint: string) => unknown
+
+const isSchemaObject = (value: unknown): value is Schema =>
+    !!value && typeof value === "object" && !Array.isArray(value)
+
+/**
+ * Moves reusable schemas out of the paths into `components.schemas`.
+ * - Schemas declared with `field.schema()` are registered under their declared name.
+ * - Object schemas that appear more than once with an identical structure are registered
+ *   under a name derived from where they first appear.
+ * Every occurrence is then replaced with a `$ref`.
+ */
+export class SchemaComponentExtractor {
+    private schemas: Record<string, Schema> = {}
+    private structuralNames = new Map<string, string>()
+
+    /**
+     * Extracts reusable schemas from the paths, replacing them with `$ref`s in place.
+     * @param {Record<string, Record<string, unknown>>} paths OpenAPI paths object
+     * @returns {Record<string, Schema>} Schemas to be written to `components.schemas`
+     */
+    public extract(paths: Record<string, Record<string, unknown>>): Record<string, Schema> {
+        this.forEachSchemaRoot(paths, (schema, hint) => this.extractNamed(schema, hint))
+
+        const counts = new Map<string, number>()
+        this.forEachSchemaRoot(paths, (schema) => {
+            this.countObjectSchemas(schema, counts)
+            return schema
+        })
+        this.forEachSchemaRoot(paths, (schema, hint) =>
+            this.replaceDuplicates(schema, hint, counts),
+        )
+
+        return this.schemas
+    }
+
+    /**
+     * Visits the request and response body schemas of every operation.
+     * @param {Record<string, Record<string, unknown>>} paths OpenAPI paths object
+     * @param {SchemaVisitor} visitor Function returning the schema to store in place
+     */
+    private forEachSchemaRoot(
+        paths: Record<string, Record<string, unknown>>,
+        visitor: SchemaVisitor,
+    ): void {
+        for (const pathItem of Object.values(paths)) {
+            for (const operation of Object.values(pathItem) as Array<Record<string, any>>) {
+                const operationName = this.toComponentName(String(operation.operationId ?? ""))
+
+                for (const mediaType of Object.values(operation.requestBody?.content ?? {})) {
+                    this.visitMediaType(mediaType, `${operationName}Request`, visitor)
+                }
+
+                for (const response of Object.values(operation.responses ?? {}) as any[]) {
+                    for (const mediaType of Object.values(response?.content ?? {})) {
+                        this.visitMediaType(mediaType, `${operationName}Response`, visitor)
+                    }
+                }
+            }
+        }
+    }
+
+    private visitMediaType(mediaType: unknown, hint: string, visitor: SchemaVisitor): void {
+        if (isSchemaObject(mediaType) && mediaType.schema) {
+            mediaType.schema = visitor(mediaType.schema, hint)
+        }
+    }
+
+    /**
+     * Applies the visitor to every nested schema (properties, items and composition keywords).
+     * @param {Schema} schema Parent schema
+     * @param {string} hint Name hint of the parent schema
+     * @param {SchemaVisitor} visitor Function returning the schema to store in place
+     * @returns {Schema} Copy of the schema with visited children
+     */
+    private mapChildren(schema: Schema, hint: string, visitor: SchemaVisitor): Schema {
+        const result: Schema = { ...schema }
+
+        if (isSchemaObject(schema.properties)) {
+            const properties: Schema = {}
+            for (const [name, property] of Object.entries(schema.properties)) {
+                properties[name] = visitor(property, this.toComponentName(name) || hint)
+            }
+            result.properties = properties
+        }
+
+        if (isSchemaObject(schema.items)) {
+            result.items = visitor(schema.items, `${hint}Item`)
+        }
+
+        if (isSchemaObject(schema.additionalProperties)) {
+            result.additionalProperties = visitor(schema.additionalProperties, `${hint}Value`)
+        }
+
+        for (const keyword of ["oneOf", "anyOf", "allOf"]) {
+            const branches = schema[keyword]
+            if (Array.isArray(branches)) {
+                result[keyword] = branches.map((branch) => visitor(branch, `${hint}Option`))
+            }
+        }
+
+        return result
+    }
+
+    /**
+     * Replaces schemas declared with `field.schema()` by references, bottom-up.
+     * @param {unknown} schema Schema to process
+     * @param {string} hint Name hint of the schema
+     * @returns {unknown} Processed schema
+     */
+    private extractNamed(schema: unknown, hint: string): unknown {
+        if (!isSchemaObject(schema)) {
+            return schema
+        }
+
+        const mapped = this.mapChildren(schema, hint, (child, childHint) =>
+            this.extractNamed(child, childHint),
+        )
+        const name = mapped[SCHEMA_NAME_EXTENSION]
+        if (typeof name !== "string") {
+            return mapped
+        }
+
+        const definition = { ...mapped }
+        delete definition[SCHEMA_NAME_EXTENSION]
+        delete definition.description
+        delete definition.example
+        this.registerNamed(name, definition)
+
+        return typeof mapped.description === "string"
+            ? { description: mapped.description, allOf: [this.createReference(name)] }
+            : this.createReference(name)
+    }
+
+    private registerNamed(name: string, definition: Schema): void {
+        const existing = this.schemas[name]
+        if (!existing) {
+            this.schemas[name] = definition
+            return
+        }
+
+        if (this.signature(existing, true) !== this.signature(definition, true)) {
+            logger.warn(
+                `Schema "${name}" is declared with different shapes. The first declaration is used.`,
+            )
+        }
+    }
+
+    /**
+     * Counts object schemas by structure, ignoring examples. The children of a repeated schema
+     * are counted once, since they end up in a single component.
+     * @param {unknown} schema Schema to count
+     * @param {Map<string, number>} counts Number of occurrences per structural signature
+     */
+    private countObjectSchemas(schema: unknown, counts: Map<string, number>): void {
+        if (!isSchemaObject(schema)) {
+            return
+        }
+
+        if (this.isDeduplicable(schema)) {
+            const signature = this.signature(schema, true)
+            const count = counts.get(signature) ?? 0
+            counts.set(signature, count + 1)
+            if (count > 0) {
+                return
+            }
+        }
+
+        this.mapChildren(schema, "", (child) => {
+            this.countObjectSchemas(child, counts)
+            return child
+        })
+    }
+
+    /**
+     * Replaces object schemas that appear more than once by references, top-down.
+     * The first occurrence becomes the component, keeping its examples.
+     * @param {unknown} schema Schema to process
+     * @param {string} hint Name hint of the schema
+     * @param {Map<string, number>} counts Number of occurrences per structural signature
+     * @returns {unknown} Processed schema
+     */
+    private replaceDuplicates(schema: unknown, hint: string, counts: Map<string, number>): unknown {
+        if (!isSchemaObject(schema)) {
+            return schema
+        }
+
+        if (this.isDeduplicable(schema)) {
+            const signature = this.signature(schema, true)
+            if ((counts.get(signature) ?? 0) > 1) {
+                let name = this.structuralNames.get(signature)
+                if (!name) {
+                    name = this.uniqueName(hint || "Schema")
+                    this.structuralNames.set(signature, name)
+                    // Reserves the name while the children are processed.
+                    this.schemas[name] = schema
+                    this.schemas[name] = this.mapChildren(schema, name, (child, childHint) =>
+                        this.replaceDuplicates(child, childHint, counts),
+                    )
+                }
+                return this.createReference(name)
+            }
+        }
+
+        return this.mapChildren(schema, hint, (child, childHint) =>
+            this.replaceDuplicates(child, childHint, counts),
+        )
+    }
+
+    private isDeduplicable(schema: Schema): boolean {
+        return (
+            schema.type === "object" &&
+            isSchemaObject(schema.properties) &&
+            Object.keys(schema.properties).length > 0
+        )
+    }
+
+    private createReference(name: string): Schema {
+        return { $ref: `#/components/schemas/${name}` }
+    }
+
+    private uniqueName(base: string): string {
+        let name = base
+        for (let index = 2; this.schemas[name]; index++) {
+            name = `${base}${index}`
+        }
+        return name
+    }
+
+    private toComponentName(value: string): string {
+        return value
+            .split(/[^A-Za-z0-9]+/)
+            .filter(Boolean)
+            .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+            .join("")
+    }
+
+    /**
+     * Creates a key-order independent signature of a schema.
+     * @param {unknown} value Schema or schema fragment
+     * @param {boolean} ignoreExamples Whether `example` values are left out of the signature
+     * @returns {string} Structural signature
+     */
+    private signature(value: unknown, ignoreExamples: boolean = false): string {
+        const normalize = (node: unknown, isPropertyMap: boolean = false): unknown => {
+            if (Array.isArray(node)) {
+                return node.map((item) => normalize(item))
+            }
+            if (!isSchemaObject(node)) {
+                return node
+            }
+            return Object.keys(node)
+                .filter((key) => isPropertyMap || !(ignoreExamples && key === "example"))
+                .sort()
+                .reduce<Schema>((acc, key) => {
+                    acc[key] = normalize(node[key], !isPropertyMap && key === "properties")
+                    return acc
+                }, {})
+        }
+        return JSON.stringify(normalize(value))
+    }
+}
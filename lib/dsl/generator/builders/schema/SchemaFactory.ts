@@ -21,7 +21,7 @@ import { BooleanSchemaGenerator } from "./generators/BooleanSchemaGenerator"
 import { ArraySchemaGenerator } from "./generators/ArraySchemaGenerator"
 import { ObjectSchemaGenerator } from "./generators/ObjectSchemaGenerator"
 import { DSLFieldSchemaGenerator } from "./generators/DSLFieldSchemaGenerator"
-import { isDSLField } from "../../../interface/field"
+import { isArrayMatch, isDSLField } from "../../../interface/field"
 
 /**
  * Schema generator factory class
@@ -80,7 +80,7 @@ export class SchemaFactory implements ISchemaFactory {
         }
 
         // 배열 처리
-        if (Array.isArray(value)) {
+        if (Array.isArray(value) || isArrayMatch(value)) {
             return this.generators["array"].generateSchema(value, includeExample)
         }
 
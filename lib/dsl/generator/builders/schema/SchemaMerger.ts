@@ -0,0 +1,188 @@
+/*
+ * Copyright 2025 the original author or authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+type Schema = Record<string, unknown>
+
+const COMPOSITION_KEYWORD = "oneOf"
+
+const isSchemaObject = (value: unknown): value is Schema =>
+    !!value && typeof value === "object" && !Array.isArray(value)
+
+/**
+ * Merges schemas inferred from different samples of the same value
+ * (e.g. the response bodies of several test cases sharing a status code).
+ * - Object properties are united; a property missing from any sample becomes optional.
+ * - `null` samples make the other schema `nullable`.
+ * - Samples of different types become `oneOf` branches.
+ */
+export class SchemaMerger {
+    /**
+     * Merges two schemas. The first schema's description and example take precedence.
+     * @param {Schema} base Schema merged so far
+     * @param {Schema} incoming Schema of the next sample
+     * @returns {Schema} Merged schema
+     */
+    public merge(base: Schema, incoming: Schema): Schema {
+        if (this.signature(base) === this.signature(incoming) || this.isUnknown(incoming)) {
+            return base
+        }
+        if (this.isUnknown(base)) {
+            return incoming
+        }
+
+        if (incoming.type === "null") {
+            return base.type === "null" ? base : { ...base, nullable: true }
+        }
+        if (base.type === "null") {
+            return { ...incoming, nullable: true }
+        }
+
+        if (Array.isArray(base[COMPOSITION_KEYWORD])) {
+            return this.addBranch(base, incoming)
+        }
+
+        const baseType = this.normalizeType(base.type)
+        const incomingType = this.normalizeType(incoming.type)
+        if (!baseType || baseType !== incomingType) {
+            return this.addBranch({ [COMPOSITION_KEYWORD]: [base] }, incoming)
+        }
+
+        const merged: Schema = { ...incoming, ...base }
+        if (base.type !== incoming.type) {
+            merged.type = "number"
+        }
+        if (base.nullable || incoming.nullable) {
+            merged.nullable = true
+        }
+        if (base.format !== incoming.format) {
+            delete merged.format
+        }
+
+        if (baseType === "object") {
+            this.mergeObjectSchemas(merged, base, incoming)
+        } else if (baseType === "array" && isSchemaObject(base.items)) {
+            merged.items = isSchemaObject(incoming.items)
+                ? this.merge(base.items, incoming.items)
+                : base.items
+        }
+
+        return merged
+    }
+
+    /**
+     * Merges all schemas in order.
+     * @param {Schema[]} schemas Schemas of each sample
+     * @returns {Schema | undefined} Merged schema, or undefined for an empty list
+     */
+    public mergeAll(schemas: Schema[]): Schema | undefined {
+        if (schemas.length === 0) {
+            return undefined
+        }
+        return schemas.slice(1).reduce((merged, schema) => this.merge(merged, schema), schemas[0])
+    }
+
+    /**
+     * Checks whether a schema carries no type information (e.g. the items of an empty array).
+     * @param {Schema} schema Schema to check
+     * @returns {boolean} Whether the schema accepts any value
+     */
+    private isUnknown(schema: Schema): boolean {
+        return Object.keys(schema).every((key) => key === "description" || key === "example")
+    }
+
+    private mergeObjectSchemas(merged: Schema, base: Schema, incoming: Schema): void {
+        const baseProperties = isSchemaObject(base.properties) ? base.properties : {}
+        const incomingProperties = isSchemaObject(incoming.properties) ? incoming.properties : {}
+
+        const properties: Schema = { ...baseProperties }
+        for (const [name, schema] of Object.entries(incomingProperties)) {
+            properties[name] =
+                isSchemaObject(properties[name]) && isSchemaObject(schema)
+                    ? this.merge(properties[name] as Schema, schema)
+                    : (properties[name] ?? schema)
+        }
+        if (Object.keys(properties).length > 0) {
+            merged.properties = properties
+        }
+
+        const baseRequired = Array.isArray(base.required) ? (base.required as string[]) : []
+        const incomingRequired = Array.isArray(incoming.required)
+            ? (incoming.required as string[])
+            : []
+        const required = [...new Set([...baseRequired, ...incomingRequired])].filter(
+            (name) => name in baseProperties && name in incomingProperties,
+        )
+        if (required.length > 0) {
+            merged.required = required
+        } else {
+            delete merged.required
+        }
+    }
+
+    private addBranch(composed: Schema, incoming: Schema): Schema {
+        const branches = composed[COMPOSITION_KEYWORD] as Schema[]
+        const incomingBranches = Array.isArray(incoming[COMPOSITION_KEYWORD])
+            ? (incoming[COMPOSITION_KEYWORD] as Schema[])
+            : [incoming]
+
+        const result = [...branches]
+        for (const branch of incomingBranches) {
+            const index = result.findIndex(
+                (existing) =>
+                    this.normalizeType(existing.type) !== undefined &&
+                    this.normalizeType(existing.type) === this.normalizeType(branch.type),
+            )
+            if (index === -1) {
+                result.push(branch)
+            } else {
+                result[index] = this.merge(result[index], branch)
+            }
+        }
+
+        return { ...composed, [COMPOSITION_KEYWORD]: result }
+    }
+
+    private normalizeType(type: unknown): string | undefined {
+        if (typeof type !== "string") {
+            return undefined
+        }
+        return type === "integer" ? "number" : type
+    }
+
+    /**
+     * Creates a key-order independent signature of a schema, ignoring examples.
+     * @param {unknown} value Schema or schema fragment
+     * @returns {string} Structural signature
+     */
+    private signature(value: unknown): string {
+        const normalize = (node: unknown): unknown => {
+            if (Array.isArray(node)) {
+                return node.map(normalize)
+            }
+            if (!isSchemaObject(node)) {
+                return node
+            }
+            return Object.keys(node)
+                .filter((key) => key !== "example")
+                .sort()
+                .reduce<Schema>((acc, key) => {
+                    acc[key] = normalize(node[key])
+                    return acc
+                }, {})
+        }
+        return JSON.stringify(normalize(value))
+    }
+}
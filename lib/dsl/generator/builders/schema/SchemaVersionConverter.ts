@@ -0,0 +1,220 @@
+/*
+ * Copyright 2025 the original author or authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+type Schema = Record<string, unknown>
+
+/**
+ * Supported OpenAPI output versions
+ */
+export type OpenAPIVersion = "3.0.0" | "3.1.0"
+
+const COMPOSITION_KEYWORDS = ["oneOf", "anyOf", "allOf"]
+
+const isSchemaObject = (value: unknown): value is Schema =>
+    !!value && typeof value === "object" && !Array.isArray(value)
+
+/**
+ * Rewrites the schemas of a generated document for the target OpenAPI version.
+ * - 3.0: `type: "null"` and type arrays become `nullable`, `const` becomes a single-value `enum`
+ *   and `examples` becomes `example`.
+ * - 3.1 (JSON Schema 2020-12): `nullable` becomes a type array, `example` becomes `examples`
+ *   and a single-value `enum` becomes `const`.
+ */
+export class SchemaVersionConverter {
+    private readonly version: OpenAPIVersion
+
+    /**
+     * Constructor
+     * @param {OpenAPIVersion} version Target OpenAPI version
+     */
+    public constructor(version: OpenAPIVersion) {
+        this.version = version
+    }
+
+    /**
+     * Converts every schema in the document in place.
+     * @param {Record<string, unknown>} document OpenAPI document
+     * @returns {Record<string, unknown>} The same document
+     */
+    public convertDocument(document: Record<string, unknown>): Record<string, unknown> {
+        this.visit(document)
+
+        const components = document.components as Schema | undefined
+        if (components && isSchemaObject(components.schemas)) {
+            for (const [name, schema] of Object.entries(components.schemas)) {
+                components.schemas[name] = this.convertSchema(schema)
+            }
+        }
+
+        return document
+    }
+
+    /**
+     * Converts a schema and its subschemas.
+     * @param {unknown} schema Schema to convert
+     * @returns {unknown} Converted schema
+     */
+    public convertSchema(schema: unknown): unknown {
+        if (!isSchemaObject(schema)) {
+            return schema
+        }
+
+        const result: Schema = { ...schema }
+
+        if (isSchemaObject(result.properties)) {
+            result.properties = Object.fromEntries(
+                Object.entries(result.properties).map(([name, property]) => [
+                    name,
+                    this.convertSchema(property),
+                ]),
+            )
+        }
+        for (const keyword of ["items", "additionalProperties", "not"]) {
+            if (isSchemaObject(result[keyword])) {
+                result[keyword] = this.convertSchema(result[keyword])
+            }
+        }
+        for (const keyword of COMPOSITION_KEYWORDS) {
+            if (Array.isArray(result[keyword])) {
+                result[keyword] = (result[keyword] as unknown[]).map((branch) =>
+                    this.convertSchema(branch),
+                )
+            }
+        }
+
+        return this.version === "3.1.0" ? this.toOpenAPI31(result) : this.toOpenAPI30(result)
+    }
+
+    /**
+     * Walks the document outside of schemas and converts every `schema` value found.
+     * @param {unknown} node Document node
+     */
+    private visit(node: unknown): void {
+        if (Array.isArray(node)) {
+            node.forEach((item) => this.visit(item))
+            return
+        }
+        if (!isSchemaObject(node)) {
+            return
+        }
+
+        for (const [key, value] of Object.entries(node)) {
+            if (key === "schema") {
+                node[key] = this.convertSchema(value)
+            } else if (key !== "components" && key !== "example" && key !== "examples") {
+                this.visit(value)
+            }
+        }
+    }
+
+    private toOpenAPI30(schema: Schema): Schema {
+        if (Array.isArray(schema.type)) {
+            const types = (schema.type as string[]).filter((type) => type !== "null")
+            if (types.length < schema.type.length) {
+                schema.nullable = true
+            }
+            if (types.length === 1) {
+                schema.type = types[0]
+            } else {
+                delete schema.type
+                if (types.length > 1) {
+                    schema.oneOf = types.map((type) => ({ type }))
+                }
+            }
+        } else if (schema.type === "null") {
+            delete schema.type
+            schema.nullable = true
+        }
+
+        for (const keyword of COMPOSITION_KEYWORDS.filter((key) => key !== "allOf")) {
+            const branches = schema[keyword]
+            if (!Array.isArray(branches)) {
+                continue
+            }
+            const nonNull = branches.filter((branch) => !this.isNullOnly(branch))
+            if (nonNull.length === branches.length) {
+                continue
+            }
+            schema.nullable = true
+            if (nonNull.length === 1) {
+                delete schema[keyword]
+                Object.assign(schema, { ...(nonNull[0] as Schema), ...schema })
+            } else {
+                schema[keyword] = nonNull
+            }
+        }
+
+        if ("const" in schema) {
+            schema.enum = [schema.const]
+            delete schema.const
+        }
+
+        if (Array.isArray(schema.examples)) {
+            if (schema.examples.length > 0 && !("example" in schema)) {
+                schema.example = schema.examples[0]
+            }
+            delete schema.examples
+        }
+
+        return schema
+    }
+
+    private toOpenAPI31(schema: Schema): Schema {
+        if (schema.nullable === true) {
+            if (typeof schema.type === "string" && schema.type !== "null") {
+                schema.type = [schema.type, "null"]
+            } else if (Array.isArray(schema.type) && !schema.type.includes("null")) {
+                schema.type = [...schema.type, "null"]
+            } else if (Array.isArray(schema.oneOf)) {
+                schema.oneOf = [...schema.oneOf, { type: "null" }]
+            } else if (Array.isArray(schema.anyOf)) {
+                schema.anyOf = [...schema.anyOf, { type: "null" }]
+            }
+        }
+        delete schema.nullable
+
+        if (Array.isArray(schema.enum) && schema.enum.length === 1) {
+            schema.const = schema.enum[0]
+            delete schema.enum
+        }
+
+        if ("example" in schema) {
+            if (!Array.isArray(schema.examples)) {
+                schema.examples = [schema.example]
+            }
+            delete schema.example
+        }
+
+        return schema
+    }
+
+    /**
+     * Checks if an already converted 3.0 schema only accepts `null`.
+     * @param {unknown} schema Schema to check
+     * @returns {boolean} Whether the schema only describes `null`
+     */
+    private isNullOnly(schema: unknown): boolean {
+        return (
+            isSchemaObject(schema) &&
+            schema.nullable === true &&
+            !("type" in schema) &&
+            !("$ref" in schema) &&
+            !("properties" in schema) &&
+            !("items" in schema) &&
+            !COMPOSITION_KEYWORDS.some((keyword) => keyword in schema)
+        )
+    }
+}
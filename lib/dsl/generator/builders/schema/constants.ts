@@ -26,3 +26,9 @@ export const FORMAT_PATTERNS = {
     IPV4: /^(?:(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)\.){3}(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)$/,
     IPV6: /^(?:[A-F0-9]{1,4}:){7}[A-F0-9]{1,4}$/i,
 }
+
+/**
+ * Vendor extension that marks schemas declared with `field.schema()`.
+ * It is replaced with a `$ref` to `components.schemas` before the document is written.
+ */
+export const SCHEMA_NAME_EXTENSION = "x-itdoc-schema-name"
@@ -16,12 +16,15 @@
 
 import { BaseSchemaGenerator } from "../BaseSchemaGenerator"
 import { SchemaFactory } from "../interfaces"
+import { SchemaMerger } from "../SchemaMerger"
+import { ArrayMatch, isArrayMatch } from "../../../../interface/field"
 
 /**
  * Class that generates schema for array values
  */
 export class ArraySchemaGenerator extends BaseSchemaGenerator {
     private schemaFactory: SchemaFactory
+    private schemaMerger = new SchemaMerger()
 
     /**
      * Constructor
@@ -39,22 +42,49 @@ export class ArraySchemaGenerator extends BaseSchemaGenerator {
      * @returns {Record<string, unknown>} Generated schema
      */
     public generateSchema(value: unknown, includeExample: boolean = true): Record<string, unknown> {
-        const array = value as unknown[]
-
-        if (array.length === 0) {
-            return {
-                type: "array",
-                items: { type: "string" },
-            }
+        if (isArrayMatch(value)) {
+            return this.generateMatcherSchema(value, includeExample)
         }
 
-        const itemSchema = this.schemaFactory.createSchema(array[0], includeExample)
+        return {
+            type: "array",
+            items: this.createItemsSchema(value as unknown[], includeExample),
+        }
+    }
 
-        const result: Record<string, unknown> = {
+    /**
+     * Generates schema from the elements of an array matcher.
+     * All elements are merged into a single `items` schema.
+     * @param {ArrayMatch} arrayMatch Element matching of the array matcher field
+     * @param {boolean} includeExample Whether to include example in schema (default: true)
+     * @returns {Record<string, unknown>} Generated schema
+     */
+    private generateMatcherSchema(
+        arrayMatch: ArrayMatch,
+        includeExample: boolean,
+    ): Record<string, unknown> {
+        return {
             type: "array",
-            items: itemSchema,
+            items: this.createItemsSchema(arrayMatch.elements, includeExample),
         }
+    }
 
-        return result
+    /**
+     * Creates a single `items` schema from all elements.
+     * Elements of different types become `oneOf` branches and object properties are united.
+     * An empty array has no element to infer from, so its items accept any value.
+     * @param {unknown[]} elements Array elements
+     * @param {boolean} includeExample Whether to include example in schema
+     * @returns {Record<string, unknown>} Items schema
+     */
+    private createItemsSchema(
+        elements: readonly unknown[],
+        includeExample: boolean,
+    ): Record<string, unknown> {
+        const itemSchemas = elements.map(
+            (element) =>
+                this.schemaFactory.createSchema(element, includeExample) as Record<string, unknown>,
+        )
+        return this.schemaMerger.mergeAll(itemSchemas) ?? {}
     }
 }
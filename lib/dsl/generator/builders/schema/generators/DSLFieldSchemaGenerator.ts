@@ -16,7 +16,23 @@
 
 import { BaseSchemaGenerator } from "../BaseSchemaGenerator"
 import { SchemaFactory } from "../interfaces"
-import { DSLField, FIELD_TYPES } from "../../../../interface/field"
+import {
+    DSLField,
+    FIELD_TYPES,
+    FieldComposition,
+    getDiscriminatorValue,
+    getSchemaName,
+} from "../../../../interface/field"
+
+const NUMERIC_CONSTRAINTS = [
+    "minimum",
+    "maximum",
+    "minLength",
+    "maxLength",
+    "minItems",
+    "maxItems",
+] as const
+const FLAG_CONSTRAINTS = ["nullable", "deprecated", "readOnly", "writeOnly"] as const
 
 /**
  * Generator that creates schema from DSL fields
@@ -42,13 +58,63 @@ export class DSLFieldSchemaGenerator extends BaseSchemaGenerator {
     public generateSchema(value: unknown, includeExample: boolean = true): Record<string, unknown> {
         const field = value as DSLField<FIELD_TYPES>
 
-        const schema = this.factory.createSchema(field.example) as Record<string, unknown>
+        // Array matchers are documented by their elements, and a matcher without an example
+        // (e.g. field.matches()) by its declared type
+        const source = field.arrayMatch ?? field.example
+        const schema = field.composition
+            ? this.createCompositionSchema(field.composition, includeExample)
+            : field.type && source === undefined
+              ? { type: field.type }
+              : (this.factory.createSchema(source) as Record<string, unknown>)
+        if (field.type) {
+            schema.type = field.type
+        }
+        if (field.items !== undefined && schema.type === "array") {
+            schema.items = this.factory.createSchema(field.items)
+        }
 
         this.enrichSchemaWithMetadata(schema, field, includeExample)
 
         return schema
     }
 
+    /**
+     * Creates a `oneOf`/`anyOf`/`allOf` schema from the variants of a polymorphic field.
+     * Named variants are mapped by their discriminator value to their component schema.
+     * @param {FieldComposition} composition Variants of the field
+     * @param {boolean} includeExample Whether to include examples in the variant schemas
+     * @returns {Record<string, unknown>} Composition schema
+     */
+    private createCompositionSchema(
+        composition: FieldComposition,
+        includeExample: boolean,
+    ): Record<string, unknown> {
+        const { keyword, variants, discriminator } = composition
+        const schema: Record<string, unknown> = {
+            [keyword]: variants.map((variant) =>
+                this.factory.createSchema(variant, includeExample),
+            ),
+        }
+        if (!discriminator) {
+            return schema
+        }
+
+        const mapping: Record<string, string> = {}
+        for (const variant of variants) {
+            const value = getDiscriminatorValue(variant, discriminator)
+            const name = getSchemaName(variant)
+            if (value !== undefined && name) {
+                mapping[value] = `#/components/schemas/${name}`
+            }
+        }
+
+        schema.discriminator =
+            Object.keys(mapping).length > 0
+                ? { propertyName: discriminator, mapping }
+                : { propertyName: discriminator }
+        return schema
+    }
+
     /**
      * Enriches schema with field metadata.
      * @param {Record<string, unknown>} schema Schema to enrich
@@ -68,18 +134,32 @@ export class DSLFieldSchemaGenerator extends BaseSchemaGenerator {
             schema.example = field.example
         }
 
-        const extendedField = field as any
+        if (field.format) {
+            schema.format = field.format
+        }
+
+        if (field.enum) {
+            schema.enum = [...field.enum]
+        }
+
+        if (field.pattern) {
+            schema.pattern = field.pattern instanceof RegExp ? field.pattern.source : field.pattern
+        }
 
-        if (extendedField.format) {
-            schema.format = extendedField.format
+        for (const key of NUMERIC_CONSTRAINTS) {
+            if (field[key] !== undefined) {
+                schema[key] = field[key]
+            }
         }
 
-        if (extendedField.enum) {
-            schema.enum = extendedField.enum
+        for (const key of FLAG_CONSTRAINTS) {
+            if (field[key]) {
+                schema[key] = true
+            }
         }
 
-        if (extendedField.pattern) {
-            schema.pattern = extendedField.pattern
+        if (field.default !== undefined) {
+            schema.default = field.default
         }
     }
 }
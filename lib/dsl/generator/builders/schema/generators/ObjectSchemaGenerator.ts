@@ -14,8 +14,9 @@
  * limitations under the License.
  */
 
-import { isDSLField } from "../../../../interface/field"
+import { getSchemaName, isDSLField } from "../../../../interface/field"
 import { BaseSchemaGenerator } from "../BaseSchemaGenerator"
+import { SCHEMA_NAME_EXTENSION } from "../constants"
 import { SchemaFactory } from "../interfaces"
 
 /**
@@ -67,6 +68,11 @@ export class ObjectSchemaGenerator extends BaseSchemaGenerator {
             schema.required = required
         }
 
+        const schemaName = getSchemaName(obj)
+        if (schemaName) {
+            schema[SCHEMA_NAME_EXTENSION] = schemaName
+        }
+
         return schema
     }
 }
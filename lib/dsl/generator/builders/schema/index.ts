@@ -32,6 +32,11 @@ export * from "./generators/DSLFieldSchemaGenerator"
 
 // Export factory
 export { SchemaFactory } from "./SchemaFactory"
+export { SchemaComponentExtractor } from "./SchemaComponentExtractor"
+export { SchemaMerger } from "./SchemaMerger"
+export { SchemaVersionConverter } from "./SchemaVersionConverter"
+export type { OpenAPIVersion } from "./SchemaVersionConverter"
+export { PROBLEM_DETAILS_SCHEMA_NAME, toProblemDetailsSchema } from "./ProblemDetails"
 
 /**
  * Builder class responsible for OpenAPI schema generation
@@ -18,13 +18,24 @@ import * as fs from "fs"
 import * as path from "path"
 import { IOpenAPIGenerator } from "./types/TestResult"
 import logger from "../../config/logger"
-import _ from "lodash"
+import { getOpenAPIValidationMode, getOpenAPIWriteStrategy } from "../../config/getOpenAPIConfig"
+import { formatValidationProblem, validateOpenAPISpec } from "./validateOpenAPISpec"
+import { formatSpecChange, OpenAPISpecDiff } from "./OpenAPISpecDiff"
+import { mergeOpenAPISpecs, sortOpenAPISpec } from "./specOutput"
 /**
  * Exports OpenAPI Specification to JSON file based on test results.
+ * With the "merge" write strategy, the document is merged into the existing file;
+ * with "replace" (default), only what this run produced is written.
+ * The document is validated first; in strict mode an invalid document is not written.
  * @param {IOpenAPIGenerator} generator OAS generator instance
  * @param {string} outputPath Output file path
+ * @returns {Promise<void>} Resolves once the document is written
+ * @throws {Error} When the document cannot be generated, is invalid in strict mode, or cannot be written
  */
-export const exportOASToJSON = (generator: IOpenAPIGenerator, outputPath: string): void => {
+export const exportOASToJSON = async (
+    generator: IOpenAPIGenerator,
+    outputPath: string,
+): Promise<void> => {
     try {
         if (!generator) {
             throw new Error("A valid OpenAPI generator was not provided.")
@@ -43,31 +54,92 @@ export const exportOASToJSON = (generator: IOpenAPIGenerator, outputPath: string
         }
         const filePath = path.resolve(outputPath)
 
-        let finalSpec = spec
-        if (fs.existsSync(filePath)) {
+        let finalSpec: Record<string, any> = spec
+        if (getOpenAPIWriteStrategy() === "merge" && fs.existsSync(filePath)) {
             try {
-                const existingSpec: any = JSON.parse(fs.readFileSync(filePath, "utf8"))
-                const { paths: oldPaths = {}, ...oldRest } = existingSpec
-                const { paths: newPaths = {}, ...newRest } = spec
-                const mergedRest = _.merge({}, oldRest, newRest)
-                const allPathKeys = new Set([...Object.keys(oldPaths), ...Object.keys(newPaths)])
-                const mergedPaths: Record<string, any> = {}
-                for (const p of allPathKeys) {
-                    mergedPaths[p] = _.merge({}, oldPaths[p] || {}, newPaths[p] || {})
-                }
-
-                finalSpec = {
-                    ...mergedRest,
-                    paths: mergedPaths,
-                }
+                const existingSpec = JSON.parse(fs.readFileSync(filePath, "utf8"))
+                finalSpec = mergeOpenAPISpecs(existingSpec, spec)
             } catch {
+                logger.warn(`Could not read ${filePath} to merge into. It will be replaced.`)
                 finalSpec = spec
             }
         }
+        finalSpec = sortOpenAPISpec(finalSpec)
+
+        await validateBeforeExport(finalSpec)
+
         fs.writeFileSync(filePath, JSON.stringify(finalSpec, null, 2), "utf8")
         logger.debug(`OpenAPI Specification exported to ${outputPath}`)
     } catch (error) {
         const errorMessage = error instanceof Error ? error.message : "Unknown error occurred"
         logger.error(`Failed to export OpenAPI Specification: ${errorMessage}`)
+        throw error
+    }
+}
+
+/**
+ * Validates the document according to `itdoc.validation` and reports every problem.
+ * @param {object} spec OpenAPI document about to be written
+ * @throws {Error} In strict mode, when the document has structural errors
+ */
+const validateBeforeExport = async (spec: object): Promise<void> => {
+    const mode = getOpenAPIValidationMode()
+    if (mode === "off") {
+        return
+    }
+
+    const problems = await validateOpenAPISpec(spec)
+    const errors = problems.filter((problem) => problem.severity === "error")
+    for (const problem of problems) {
+        const line = formatValidationProblem(problem)
+        if (mode === "strict" && problem.severity === "error") {
+            logger.error(line)
+        } else {
+            logger.warn(line)
+        }
+    }
+
+    if (mode === "strict" && errors.length > 0) {
+        throw new Error(
+            `The generated document has ${errors.length} OpenAPI validation error(s). Fix them or set itdoc.validation to "warn".`,
+        )
     }
 }
+
+/**
+ * Compares an OpenAPI document with a baseline document and reports every change.
+ * @param {string} baselinePath Path of the baseline document (e.g. a committed oas.json)
+ * @param {string} currentPath Path of the newly generated document
+ * @returns {boolean} Whether the document is free of breaking changes
+ * @throws {Error} When either document cannot be read
+ */
+export const checkOASDrift = (baselinePath: string, currentPath: string): boolean => {
+    const readSpec = (specPath: string): Record<string, unknown> => {
+        const resolved = path.resolve(specPath)
+        if (!fs.existsSync(resolved)) {
+            throw new Error(`OpenAPI document not found: ${resolved}`)
+        }
+        return JSON.parse(fs.readFileSync(resolved, "utf8"))
+    }
+
+    const changes = new OpenAPISpecDiff(readSpec(baselinePath), readSpec(currentPath)).compare()
+    const breakingChanges = changes.filter((change) => change.kind === "breaking")
+
+    for (const change of changes) {
+        if (change.kind === "breaking") {
+            logger.error(formatSpecChange(change))
+        } else {
+            logger.info(formatSpecChange(change))
+        }
+    }
+
+    if (changes.length === 0) {
+        logger.info(`No changes from the baseline ${baselinePath}`)
+    } else {
+        logger.info(
+            `${changes.length} change(s) from the baseline, ${breakingChanges.length} breaking.`,
+        )
+    }
+
+    return breakingChanges.length === 0
+}
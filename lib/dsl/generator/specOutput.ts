@@ -0,0 +1,221 @@
+/*
+ * Copyright 2025 the original author or authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+type SpecObject = Record<string, any>
+
+const HTTP_METHODS = ["get", "put", "post", "delete", "options", "head", "patch", "trace"]
+
+const TOP_LEVEL_ORDER = [
+    "openapi",
+    "info",
+    "jsonSchemaDialect",
+    "servers",
+    "paths",
+    "webhooks",
+    "components",
+    "security",
+    "tags",
+    "externalDocs",
+]
+
+const isPlainObject = (value: unknown): value is SpecObject =>
+    !!value && typeof value === "object" && !Array.isArray(value)
+
+const sortKeys = <T>(record: Record<string, T>): Record<string, T> =>
+    Object.fromEntries(
+        Object.keys(record)
+            .sort()
+            .map((key) => [key, record[key]]),
+    )
+
+const parameterKey = (parameter: SpecObject): string =>
+    parameter.$ref ?? `${parameter.in}:${parameter.name}`
+
+/**
+ * Merges a newly generated document into the previously written one.
+ * Operations are matched by path and method, parameters by location and name,
+ * responses by status code and components by name; the new document wins on conflicts.
+ * An operation that moved to another path or method (same operationId) is not kept twice.
+ * @param {SpecObject} previous Previously written document
+ * @param {SpecObject} next Newly generated document
+ * @returns {SpecObject} Merged document
+ */
+export const mergeOpenAPISpecs = (previous: SpecObject, next: SpecObject): SpecObject => {
+    const nextOperationIds = new Set<string>()
+    for (const pathItem of Object.values(next.paths ?? {}) as SpecObject[]) {
+        for (const method of HTTP_METHODS) {
+            if (pathItem[method]?.operationId) {
+                nextOperationIds.add(pathItem[method].operationId)
+            }
+        }
+    }
+
+    const paths: SpecObject = {}
+    for (const [path, previousItem] of Object.entries(previous.paths ?? {}) as Array<
+        [string, SpecObject]
+    >) {
+        const nextItem: SpecObject = next.paths?.[path] ?? {}
+        const item: SpecObject = {}
+        for (const [key, previousOperation] of Object.entries(previousItem)) {
+            if (!HTTP_METHODS.includes(key)) {
+                item[key] = previousOperation
+            } else if (nextItem[key]) {
+                item[key] = mergeOperations(previousOperation, nextItem[key])
+            } else if (!nextOperationIds.has(previousOperation?.operationId)) {
+                item[key] = previousOperation
+            }
+        }
+        paths[path] = { ...item, ...withoutKeys(nextItem, Object.keys(item)) }
+        if (Object.keys(paths[path]).length === 0) {
+            delete paths[path]
+        }
+    }
+    for (const [path, nextItem] of Object.entries(next.paths ?? {})) {
+        if (!(path in paths)) {
+            paths[path] = nextItem
+        }
+    }
+
+    const components: SpecObject = { ...(previous.components ?? {}) }
+    for (const [section, entries] of Object.entries(next.components ?? {})) {
+        components[section] = { ...(components[section] ?? {}), ...(entries as SpecObject) }
+    }
+
+    const merged: SpecObject = { ...previous, ...next, paths }
+    if (Object.keys(components).length > 0) {
+        merged.components = components
+    }
+    if (Array.isArray(previous.tags) || Array.isArray(next.tags)) {
+        merged.tags = mergeByKey(previous.tags ?? [], next.tags ?? [], (tag) => tag.name)
+    }
+
+    return merged
+}
+
+/**
+ * Orders a document so that it serializes deterministically.
+ * Top-level fields follow the OpenAPI order, while paths, status codes, media types
+ * and component names are sorted. Schema properties keep their declaration order.
+ * @param {SpecObject} spec OpenAPI document
+ * @returns {SpecObject} Ordered document
+ */
+export const sortOpenAPISpec = (spec: SpecObject): SpecObject => {
+    const sorted: SpecObject = {}
+    const keys = [
+        ...TOP_LEVEL_ORDER.filter((key) => key in spec),
+        ...Object.keys(spec)
+            .filter((key) => !TOP_LEVEL_ORDER.includes(key))
+            .sort(),
+    ]
+
+    for (const key of keys) {
+        if (key === "paths" && isPlainObject(spec.paths)) {
+            sorted.paths = Object.fromEntries(
+                Object.keys(spec.paths)
+                    .sort()
+                    .map((path) => [path, sortPathItem(spec.paths[path])]),
+            )
+        } else if (key === "components" && isPlainObject(spec.components)) {
+            sorted.components = Object.fromEntries(
+                Object.keys(spec.components)
+                    .sort()
+                    .map((section) => [
+                        section,
+                        isPlainObject(spec.components[section])
+                            ? sortKeys(spec.components[section])
+                            : spec.components[section],
+                    ]),
+            )
+        } else {
+            sorted[key] = spec[key]
+        }
+    }
+
+    return sorted
+}
+
+const sortPathItem = (pathItem: SpecObject): SpecObject => {
+    const sorted: SpecObject = {}
+    for (const key of Object.keys(pathItem)) {
+        if (!HTTP_METHODS.includes(key)) {
+            sorted[key] = pathItem[key]
+        }
+    }
+    for (const method of HTTP_METHODS) {
+        if (pathItem[method]) {
+            sorted[method] = sortOperation(pathItem[method])
+        }
+    }
+    return sorted
+}
+
+const sortOperation = (operation: SpecObject): SpecObject => {
+    const sorted: SpecObject = { ...operation }
+
+    if (isPlainObject(operation.requestBody?.content)) {
+        sorted.requestBody = {
+            ...operation.requestBody,
+            content: sortKeys(operation.requestBody.content),
+        }
+    }
+
+    if (isPlainObject(operation.responses)) {
+        sorted.responses = Object.fromEntries(
+            Object.keys(operation.responses)
+                .sort()
+                .map((status) => {
+                    const response = operation.responses[status]
+                    return [
+                        status,
+                        isPlainObject(response?.content)
+                            ? { ...response, content: sortKeys(response.content) }
+                            : response,
+                    ]
+                }),
+        )
+    }
+
+    return sorted
+}
+
+const mergeOperations = (previous: SpecObject, next: SpecObject): SpecObject => {
+    const merged: SpecObject = { ...previous, ...next }
+
+    if (Array.isArray(previous.parameters) || Array.isArray(next.parameters)) {
+        merged.parameters = mergeByKey(
+            previous.parameters ?? [],
+            next.parameters ?? [],
+            parameterKey,
+        )
+    }
+    if (previous.responses || next.responses) {
+        merged.responses = { ...(previous.responses ?? {}), ...(next.responses ?? {}) }
+    }
+
+    return merged
+}
+
+const mergeByKey = (
+    previous: SpecObject[],
+    next: SpecObject[],
+    key: (item: SpecObject) => string,
+): SpecObject[] => {
+    const nextKeys = new Set(next.map(key))
+    return [...previous.filter((item) => !nextKeys.has(key(item))), ...next]
+}
+
+const withoutKeys = (record: SpecObject, keys: string[]): SpecObject =>
+    Object.fromEntries(Object.entries(record).filter(([key]) => !keys.includes(key)))
@@ -23,6 +23,13 @@ export interface MediaTypeObject {
     schema?: Record<string, any>
     example?: any
     examples?: ExamplesObject
+    encoding?: Record<string, EncodingObject>
+}
+
+// Encoding object (multipart request bodies)
+export interface EncodingObject {
+    contentType?: string
+    headers?: Record<string, HeaderObject>
 }
 
 // Example object
@@ -77,6 +84,41 @@ export interface SecuritySchemeObject {
     in?: string
     scheme?: string
     bearerFormat?: string
-    flows?: any
+    flows?: OAuthFlowsObject
     openIdConnectUrl?: string
 }
+
+// OAuth flow object
+export interface OAuthFlowObject {
+    authorizationUrl?: string
+    tokenUrl?: string
+    refreshUrl?: string
+    scopes: Record<string, string>
+}
+
+// OAuth flows object
+export interface OAuthFlowsObject {
+    implicit?: OAuthFlowObject
+    password?: OAuthFlowObject
+    clientCredentials?: OAuthFlowObject
+    authorizationCode?: OAuthFlowObject
+}
+
+// External documentation object
+export interface ExternalDocumentationObject {
+    url: string
+    description?: string
+}
+
+// Server object
+export interface ServerObject {
+    url: string
+    description?: string
+}
+
+// Tag object
+export interface TagObject {
+    name: string
+    description?: string
+    externalDocs?: ExternalDocumentationObject
+}
@@ -15,7 +15,8 @@
  */
 
 import { HttpMethod } from "../../enums"
-import { ApiDocOptions, DSLRequestFile } from "../../interface"
+import { ApiDocOptions, DSLField, DSLRequestFile } from "../../interface"
+import { DSLResponseCookie } from "../../interface/cookie"
 
 /**
  * Test result interface
@@ -26,13 +27,20 @@ import { ApiDocOptions, DSLRequestFile } from "../../interface"
  * @property {ApiDocOptions} options - API documentation generation options.
  * @property {object} request - Request-related information.
  * @property {unknown} [request.body] - Request body (optional).
+ * @property {Record<string, unknown>} [request.form] - multipart/form-data parts (optional).
+ * @property {string} [request.contentType] - Media type of the request body (optional).
  * @property {Record<string, string | unknown>} [request.headers] - Request headers (optional).
  * @property {Record<string, string | unknown>} [request.queryParams] - URL query parameters (optional).
  * @property {Record<string, string | unknown>} [request.pathParams] - URL path parameters (optional).
+ * @property {Record<string, string | unknown>} [request.cookies] - Request cookies (optional).
+ * @property {object} [request.auth] - Security scheme and scopes declared with `req().auth()` (optional).
  * @property {object} response - Response-related information.
  * @property {number} response.status - HTTP response status code.
  * @property {unknown} [response.body] - Response body (optional).
  * @property {Record<string, string | unknown>} [response.headers] - Response headers (optional).
+ * @property {Record<string, DSLResponseCookie>} [response.cookies] - Expected `Set-Cookie` cookies (optional).
+ * @property {Record<string, DSLField | string | RegExp>} [response.expectedHeaders] - Response headers declared in the test (optional).
+ * @property {object} [response.file] - Binary response body declared with `res().file()` (optional).
  * @property {string} [testSuiteDescription] - Test context description. For example,
  *                                             the "test context" part in itDoc("test context", () => { ... }).
  */
@@ -43,14 +51,21 @@ export interface TestResult {
     request: {
         file?: DSLRequestFile
         body?: unknown
+        form?: Record<string, unknown>
+        contentType?: string
         headers?: Record<string, string | unknown>
         queryParams?: Record<string, string | unknown>
         pathParams?: Record<string, string | unknown>
+        cookies?: Record<string, string | unknown>
+        auth?: { scheme: string; scopes: string[] }
     }
     response: {
         status: number
         body?: unknown
         headers?: Record<string, string | unknown>
+        cookies?: Record<string, DSLResponseCookie>
+        expectedHeaders?: Record<string, DSLField | string | RegExp>
+        file?: { contentType: string }
     }
     testSuiteDescription?: string
 }
@@ -0,0 +1,74 @@
+/*
+ * Copyright 2025 the original author or authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { createConfig, lintFromString } from "@redocly/openapi-core"
+
+/**
+ * A problem found in a generated OpenAPI document
+ * @property {string} pointer JSON pointer of the invalid node (e.g. `#/paths/~1users/get`)
+ * @property {string} message Description of the problem
+ * @property {"error" | "warn"} severity Problem severity
+ * @property {string} ruleId Redocly rule that reported the problem
+ */
+export interface OpenAPIValidationProblem {
+    pointer: string
+    message: string
+    severity: "error" | "warn"
+    ruleId: string
+}
+
+/**
+ * Structural rules only: the document must conform to the OpenAPI schema
+ * and every `$ref` must resolve. Style rules of the recommended ruleset are not applied.
+ */
+const VALIDATION_RULES = {
+    struct: "error",
+    "no-unresolved-refs": "error",
+} as const
+
+/**
+ * Validates a generated OpenAPI document against the OpenAPI schema.
+ * @param {object} spec OpenAPI document
+ * @returns {Promise<OpenAPIValidationProblem[]>} Problems found in the document
+ */
+export const validateOpenAPISpec = async (spec: object): Promise<OpenAPIValidationProblem[]> => {
+    const config = await createConfig({ extends: [], rules: VALIDATION_RULES })
+    const problems = await lintFromString({
+        source: JSON.stringify(spec),
+        absoluteRef: "oas.json",
+        config,
+    })
+
+    return problems
+        .filter((problem) => !problem.ignored)
+        .map((problem) => {
+            const location = problem.location[0] as { pointer?: string } | undefined
+            return {
+                pointer: location?.pointer ?? "#/",
+                message: problem.message,
+                severity: problem.severity,
+                ruleId: problem.ruleId,
+            }
+        })
+}
+
+/**
+ * Formats a validation problem as a single log line.
+ * @param {OpenAPIValidationProblem} problem Validation problem
+ * @returns {string} Problem with its JSON pointer
+ */
+export const formatValidationProblem = (problem: OpenAPIValidationProblem): string =>
+    `${problem.pointer}: ${problem.message} (${problem.ruleId})`
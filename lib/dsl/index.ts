@@ -16,5 +16,17 @@
 
 export { HttpMethod } from "./enums/HttpMethod"
 export { HttpStatus } from "./enums/HttpStatus"
-export { describeAPI, itDoc, field } from "./interface"
-export type { ApiDocOptions } from "./interface/ItdocBuilderEntry"
+export { describeAPI, itDoc, field, file } from "./interface"
+export type {
+    ApiDocOptions,
+    DefaultResponsesOption,
+    SecurityOption,
+} from "./interface/ItdocBuilderEntry"
+export type {
+    ArrayMatchMode,
+    CompositionKeyword,
+    FieldCompositionOptions,
+    FieldMatcherOptions,
+    FieldOptions,
+    FieldValueType,
+} from "./interface/field"
@@ -17,6 +17,7 @@
 import { HttpMethod } from "../enums"
 import { TestCaseConfig } from "../test-builders/TestCaseConfig"
 import { RootBuilder } from "../test-builders/RootBuilder"
+import type { ExternalDocumentationObject, ServerObject } from "../generator/types/OpenAPITypes"
 
 /**
  * Option interface to pass to Describe API
@@ -43,15 +44,46 @@ export class ItdocBuilderEntry {
     }
 }
 
+/**
+ * Responses documented for status codes that no test case covers.
+ * `false` disables them; a list of status codes documents each one
+ * as a reference to a shared response in `components.responses`.
+ */
+export type DefaultResponsesOption = false | Array<number | string>
+
+/**
+ * Authentication an API accepts.
+ * - `public`: no authentication, even when tests send credentials
+ * - `optional`: the schemes used by the tests, or no authentication
+ * - `required`: one of the schemes used by the tests
+ */
+export type SecurityOption = "public" | "optional" | "required"
+
 /**
  * Option interface to pass to Describe API
  * @param summary One-line API summary
  * @param tag     API tag
+ * @param tags    Additional API tags, listed after `tag`
  * @param description Detailed API description
+ * @param operationId Fixed operationId, instead of one derived from the method and path
+ * @param deprecated Marks the API as deprecated
+ * @param externalDocs Link to additional documentation of the API
+ * @param servers Servers overriding the document servers for this API
+ * @param defaultResponses Overrides `itdoc.document.defaultResponses` for this API
+ * @param security Authentication the API accepts, instead of inferring it from the tests
+ * Keys starting with `x-` are copied to the operation as vendor extensions.
  */
 export interface ApiDocOptions {
     summary?: string
     tag?: string
+    tags?: string[]
     description?: string
+    operationId?: string
+    deprecated?: boolean
+    externalDocs?: ExternalDocumentationObject
+    servers?: ServerObject[]
     defaults?: TestCaseConfig
+    defaultResponses?: DefaultResponsesOption
+    security?: SecurityOption
+    [extension: `x-${string}`]: unknown
 }
@@ -0,0 +1,31 @@
+/*
+ * Copyright 2025 the original author or authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Expected attributes of a cookie set by the response (`Set-Cookie` header).
+ * Only the attributes that are specified are validated.
+ * - value can be a value or value validation function.
+ */
+export interface DSLResponseCookie {
+    readonly description?: string
+    readonly value?: string | ((value: string) => void)
+    readonly httpOnly?: boolean
+    readonly secure?: boolean
+    readonly sameSite?: "Strict" | "Lax" | "None"
+    readonly maxAge?: number
+    readonly path?: string
+    readonly domain?: string
+}
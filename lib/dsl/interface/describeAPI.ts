@@ -17,6 +17,8 @@
 import { HttpMethod } from "../enums"
 import { getTestAdapterExports } from "../adapters"
 import { ItdocBuilderEntry, ApiDocOptions } from "./ItdocBuilderEntry"
+import { isDefaultResponsesOption } from "../../config/getOpenAPIConfig"
+import { testEventManager } from "../generator"
 /**
  * Describe function for API specification
  * @param {HttpMethod} method HTTP method
@@ -38,6 +40,25 @@ export const describeAPI = (
         throw new Error("API name is required.")
     }
 
+    if (options.externalDocs && !options.externalDocs.url) {
+        throw new Error("externalDocs.url is required.")
+    }
+
+    if (options.servers?.some((server) => !server.url)) {
+        throw new Error("Every server must have a url.")
+    }
+
+    if (options.operationId !== undefined && !options.operationId.trim()) {
+        throw new Error("operationId must not be empty.")
+    }
+
+    if (
+        options.defaultResponses !== undefined &&
+        !isDefaultResponsesOption(options.defaultResponses)
+    ) {
+        throw new Error("defaultResponses must be false or a list of HTTP status codes.")
+    }
+
     if (!url.startsWith("/")) {
         url = "/" + url
     }
@@ -50,7 +71,8 @@ export const describeAPI = (
         throw new Error("API test function is required.")
     }
 
-    const { describeCommon } = getTestAdapterExports()
+    const { describeCommon, afterAllCommon } = getTestAdapterExports()
+    testEventManager.registerGenerationHook(afterAllCommon)
     describeCommon(`${options.summary} | [${method}] ${url}`, () => {
         const apiDoc = new ItdocBuilderEntry(method, url, options, app)
         callback(apiDoc)
@@ -23,14 +23,109 @@ export type FIELD_TYPES =
     | Record<string, string | number | boolean | object | null | DSLField>
     | FIELD_TYPES[]
 
+/**
+ * Schema constraints of a DSL field.
+ * They are documented in the schema, and the value-related ones
+ * (`enum`, `minimum`, `maximum`, `minLength`, `maxLength`, `minItems`, `maxItems`, `pattern`,
+ * `format`, `nullable`)
+ * are also checked against the actual response.
+ */
+export interface FieldConstraints {
+    readonly enum?: readonly FIELD_TYPES[]
+    readonly minimum?: number
+    readonly maximum?: number
+    readonly minLength?: number
+    readonly maxLength?: number
+    readonly minItems?: number
+    readonly maxItems?: number
+    readonly pattern?: string | RegExp
+    readonly format?: string
+    readonly nullable?: boolean
+    readonly deprecated?: boolean
+    readonly readOnly?: boolean
+    readonly writeOnly?: boolean
+    readonly default?: FIELD_TYPES
+    /**
+     * Item shape of an array field, documented instead of the items inferred from the example
+     * (e.g. when the example is an empty array). Response elements are checked against it.
+     */
+    readonly items?: DSLField | FIELD_TYPES
+}
+
+/**
+ * Options accepted by field() in place of the `required` flag
+ */
+export interface FieldOptions extends FieldConstraints {
+    readonly required?: boolean
+}
+
+/**
+ * Value types a field can be declared with instead of an exact example
+ */
+export type FieldValueType = "string" | "number" | "integer" | "boolean" | "object" | "array"
+
+/**
+ * Options of the schema matchers (`field.any()`, `field.matches()`, `field.uuid()`)
+ */
+export interface FieldMatcherOptions extends FieldOptions {
+    readonly example?: FIELD_TYPES
+}
+
 /**
  * DSL Field interface
  * - example can be a value or value validation function.
  */
-export interface DSLField<T extends FIELD_TYPES = FIELD_TYPES> {
+export interface DSLField<T extends FIELD_TYPES = FIELD_TYPES> extends FieldConstraints {
     readonly description: string
     readonly example: T | ((value: T) => void)
     readonly required: boolean
+    /**
+     * Declared value type.
+     * When set, the response value is matched against the schema instead of the example.
+     */
+    readonly type?: FieldValueType
+    /**
+     * How the elements of an array response are matched (`field.each()`, `field.contains()`, `field.unordered()`)
+     */
+    readonly arrayMatch?: ArrayMatch
+    /**
+     * Variants of a polymorphic field (`field.oneOf()`, `field.anyOf()`, `field.allOf()`)
+     */
+    readonly composition?: FieldComposition
+}
+
+/**
+ * Element matching modes of an array field
+ * - `each`: every element matches the single item shape
+ * - `contains`: every listed element matches some element of the response, in any order
+ * - `unordered`: the response has exactly the listed elements, in any order
+ */
+export type ArrayMatchMode = "each" | "contains" | "unordered"
+
+export interface ArrayMatch {
+    readonly mode: ArrayMatchMode
+    readonly elements: readonly (DSLField | FIELD_TYPES)[]
+}
+
+/**
+ * OpenAPI composition keywords supported by the field helpers
+ */
+export type CompositionKeyword = "oneOf" | "anyOf" | "allOf"
+
+export interface FieldComposition {
+    readonly keyword: CompositionKeyword
+    readonly variants: readonly (DSLField | FIELD_TYPES)[]
+    /**
+     * Property whose value tells which variant the value is
+     */
+    readonly discriminator?: string
+}
+
+/**
+ * Options of `field.oneOf()` and `field.anyOf()`
+ */
+export interface FieldCompositionOptions extends FieldMatcherOptions {
+    readonly discriminator?: string
 }
 
 export interface DSLRequestFile {
@@ -42,19 +137,402 @@ export interface DSLRequestFile {
 /**
  * DSL Helper Functions
  * - DSL Field creation function
+ * @template T
  * @param {string} description  Field description to be displayed in documentation
  * @param {T | (value: T) => void} example  Example value, or a validator that receives the value
- * @param {boolean} required Whether the field is required
+ * @param {boolean | FieldOptions} requiredOrOptions Whether the field is required, or field options
  * @returns {DSLField<FIELD_TYPES>} DSL Field interface
+ * @throws {Error} When the options contain contradictory bounds or a pattern with flags
  */
 export function field<T extends FIELD_TYPES>(
     description: string,
     example: T | ((value: T) => void),
-    required: boolean = true,
+    requiredOrOptions: boolean | FieldOptions = true,
 ): DSLField<FIELD_TYPES> {
-    return { description, example, required } as DSLField<FIELD_TYPES>
+    if (typeof requiredOrOptions === "boolean") {
+        return { description, example, required: requiredOrOptions } as DSLField<FIELD_TYPES>
+    }
+
+    const { required = true, ...constraints } = requiredOrOptions
+    assertConsistentBounds(constraints, "minimum", "maximum")
+    assertConsistentBounds(constraints, "minLength", "maxLength")
+    assertConsistentBounds(constraints, "minItems", "maxItems")
+    assertDocumentablePattern(constraints.pattern)
+    return { description, example, required, ...constraints } as DSLField<FIELD_TYPES>
+}
+
+/**
+ * Checks that a lower bound is not greater than its upper bound.
+ * @param {FieldConstraints} constraints Field constraints
+ * @param {string} minKey Lower bound constraint
+ * @param {string} maxKey Upper bound constraint
+ * @throws {Error} When the lower bound is greater than the upper bound
+ */
+const assertConsistentBounds = (
+    constraints: FieldConstraints,
+    minKey: "minimum" | "minLength" | "minItems",
+    maxKey: "maximum" | "maxLength" | "maxItems",
+): void => {
+    const min = constraints[minKey]
+    const max = constraints[maxKey]
+    if (min !== undefined && max !== undefined && min > max) {
+        throw new Error(`field(): ${minKey} (${min}) must not be greater than ${maxKey} (${max}).`)
+    }
+}
+
+/**
+ * Checks that a RegExp pattern has no flags other than `u`.
+ * The document keeps only the pattern source, so flags such as `i` would be checked in tests
+ * but missing from the documented pattern.
+ * @param {string | RegExp | undefined} pattern Pattern constraint
+ * @throws {Error} When the pattern has flags other than `u`
+ */
+const assertDocumentablePattern = (pattern: string | RegExp | undefined): void => {
+    if (pattern instanceof RegExp && pattern.flags.replace("u", "") !== "") {
+        throw new Error(
+            `field(): pattern ${pattern} has flags that cannot be documented. Only the "u" flag is allowed.`,
+        )
+    }
 }
 
+const SCHEMA_NAME = Symbol("itdoc.schemaName")
+const COMPONENT_NAME_PATTERN = /^[a-zA-Z0-9._-]+$/
+
+/**
+ * DSL Helper Functions
+ * - Declares a reusable object schema that is documented once under `components.schemas`
+ *   and referenced with `$ref` wherever it is used.
+ * @template T
+ * @param {string} name Component schema name (e.g. "User")
+ * @param {T} shape Object shape, with the same values accepted by body()
+ * @returns {T} A copy of the shape carrying the schema name
+ * @throws {Error} When the name is not a valid component name
+ */
+field.schema = function <T extends Record<string, DSLField | FIELD_TYPES>>(
+    name: string,
+    shape: T,
+): T {
+    if (!COMPONENT_NAME_PATTERN.test(name)) {
+        throw new Error(
+            `field.schema(): "${name}" is not a valid schema name. Use only letters, digits, ".", "-" and "_".`,
+        )
+    }
+    const named = { ...shape }
+    Object.defineProperty(named, SCHEMA_NAME, { value: name, enumerable: false })
+    return named
+}
+
+const DEFAULT_EXAMPLES: Record<FieldValueType, FIELD_TYPES> = {
+    string: "string",
+    number: 0,
+    integer: 0,
+    boolean: true,
+    object: {},
+    array: [],
+}
+
+const UUID_EXAMPLE = "3fa85f64-5717-4562-b3fc-2c963f66afa6"
+
+const createMatcher = (
+    type: FieldValueType,
+    description: string,
+    options: FieldMatcherOptions,
+): DSLField<FIELD_TYPES> => {
+    const { example, ...fieldOptions } = options
+    return { ...field(description, example as FIELD_TYPES, fieldOptions), type }
+}
+
+/**
+ * DSL Helper Functions
+ * - Declares a field that accepts any value of the given type.
+ *   Use it for generated values (ids, timestamps) whose exact value is not known in advance.
+ * @param {string} description Field description to be displayed in documentation
+ * @param {FieldValueType} type Expected value type
+ * @param {FieldMatcherOptions} options Field options, with an optional documentation example
+ * @returns {DSLField<FIELD_TYPES>} DSL Field interface
+ * @throws {Error} When the type is not supported
+ */
+field.any = function (
+    description: string,
+    type: FieldValueType,
+    options: FieldMatcherOptions = {},
+): DSLField<FIELD_TYPES> {
+    if (!(type in DEFAULT_EXAMPLES)) {
+        throw new Error(
+            `field.any(): "${type}" is not a supported type. Use one of ${Object.keys(DEFAULT_EXAMPLES).join(", ")}.`,
+        )
+    }
+    return createMatcher(type, description, {
+        ...options,
+        example: options.example ?? DEFAULT_EXAMPLES[type],
+    })
+}
+
+/**
+ * DSL Helper Functions
+ * - Declares a string field that must match the given pattern.
+ * @param {string} description Field description to be displayed in documentation
+ * @param {string | RegExp} pattern Pattern the value must match
+ * @param {FieldMatcherOptions} options Field options, with an optional documentation example
+ * @returns {DSLField<FIELD_TYPES>} DSL Field interface
+ * @throws {Error} When the documentation example does not match the pattern, or the pattern has flags other than `u`
+ */
+field.matches = function (
+    description: string,
+    pattern: string | RegExp,
+    options: FieldMatcherOptions = {},
+): DSLField<FIELD_TYPES> {
+    const { example } = options
+    if (typeof example === "string" && !new RegExp(pattern).test(example)) {
+        throw new Error(`field.matches(): example "${example}" does not match ${pattern}.`)
+    }
+    return createMatcher("string", description, { ...options, pattern })
+}
+
+/**
+ * DSL Helper Functions
+ * - Declares a string field that must be a UUID.
+ * @param {string} description Field description to be displayed in documentation
+ * @param {FieldMatcherOptions} options Field options, with an optional documentation example
+ * @returns {DSLField<FIELD_TYPES>} DSL Field interface
+ */
+field.uuid = function (
+    description: string,
+    options: FieldMatcherOptions = {},
+): DSLField<FIELD_TYPES> {
+    return createMatcher("string", description, {
+        ...options,
+        example: options.example ?? UUID_EXAMPLE,
+        format: "uuid",
+    })
+}
+
+/**
+ * Converts a value that may contain DSL fields into a plain example value.
+ * @param {unknown} value Value to convert
+ * @returns {FIELD_TYPES} Example value without DSL fields
+ */
+const toExampleValue = (value: unknown): FIELD_TYPES => {
+    if (isDSLField(value)) {
+        return typeof value.example === "function" ? null : toExampleValue(value.example)
+    }
+    if (Array.isArray(value)) {
+        return value.map(toExampleValue)
+    }
+    if (value && typeof value === "object") {
+        return Object.fromEntries(
+            Object.entries(value).map(([key, item]) => [key, toExampleValue(item)]),
+        )
+    }
+    return value as FIELD_TYPES
+}
+
+const ARRAY_MATCH = Symbol("itdoc.arrayMatch")
+
+const createArrayMatcher = (
+    match: ArrayMatch,
+    description: string,
+    options: FieldMatcherOptions,
+): DSLField<FIELD_TYPES> => {
+    const arrayMatch: ArrayMatch = { ...match }
+    Object.defineProperty(arrayMatch, ARRAY_MATCH, { value: true, enumerable: false })
+    return {
+        ...createMatcher("array", description, {
+            ...options,
+            example:
+                options.example ??
+                toExampleValue(
+                    arrayMatch.mode === "each" ? [arrayMatch.elements[0]] : arrayMatch.elements,
+                ),
+        }),
+        arrayMatch,
+    }
+}
+
+/**
+ * DSL Helper Functions
+ * - Declares an array field whose every element matches the given item shape.
+ *   The response may have any number of elements; limit it with `minItems`/`maxItems`.
+ * @param {string} description Field description to be displayed in documentation
+ * @param {DSLField | FIELD_TYPES} item Shape every element must match
+ * @param {FieldMatcherOptions} options Field options, with an optional documentation example
+ * @returns {DSLField<FIELD_TYPES>} DSL Field interface
+ */
+field.each = function (
+    description: string,
+    item: DSLField | FIELD_TYPES,
+    options: FieldMatcherOptions = {},
+): DSLField<FIELD_TYPES> {
+    return createArrayMatcher({ mode: "each", elements: [item] }, description, options)
+}
+
+/**
+ * DSL Helper Functions
+ * - Declares an array field that contains at least the given elements, in any order.
+ * @param {string} description Field description to be displayed in documentation
+ * @param {(DSLField | FIELD_TYPES)[]} elements Elements the response must contain
+ * @param {FieldMatcherOptions} options Field options, with an optional documentation example
+ * @returns {DSLField<FIELD_TYPES>} DSL Field interface
+ */
+field.contains = function (
+    description: string,
+    elements: readonly (DSLField | FIELD_TYPES)[],
+    options: FieldMatcherOptions = {},
+): DSLField<FIELD_TYPES> {
+    return createArrayMatcher({ mode: "contains", elements }, description, options)
+}
+
+/**
+ * DSL Helper Functions
+ * - Declares an array field that has exactly the given elements, in any order.
+ * @param {string} description Field description to be displayed in documentation
+ * @param {(DSLField | FIELD_TYPES)[]} elements Elements of the response
+ * @param {FieldMatcherOptions} options Field options, with an optional documentation example
+ * @returns {DSLField<FIELD_TYPES>} DSL Field interface
+ */
+field.unordered = function (
+    description: string,
+    elements: readonly (DSLField | FIELD_TYPES)[],
+    options: FieldMatcherOptions = {},
+): DSLField<FIELD_TYPES> {
+    return createArrayMatcher({ mode: "unordered", elements }, description, options)
+}
+
+/**
+ * Returns the discriminator value a variant declares, i.e. the example of its discriminator property.
+ * @param {unknown} variant Variant shape
+ * @param {string} propertyName Discriminator property name
+ * @returns {string | undefined} Discriminator value, or undefined when the variant does not declare one
+ */
+export const getDiscriminatorValue = (
+    variant: unknown,
+    propertyName: string,
+): string | undefined => {
+    if (!variant || typeof variant !== "object" || isDSLField(variant)) {
+        return undefined
+    }
+    const property = (variant as Record<string, unknown>)[propertyName]
+    const value = isDSLField(property) ? property.example : property
+    return typeof value === "string" ? value : undefined
+}
+
+/**
+ * Creates a polymorphic field for `field.oneOf()`, `field.anyOf()` and `field.allOf()`.
+ * @param {CompositionKeyword} keyword Composition keyword
+ * @param {string} description Field description to be displayed in documentation
+ * @param {Array<DSLField | FIELD_TYPES>} variants Variants
+ * @param {FieldCompositionOptions} options Field options
+ * @returns {DSLField<FIELD_TYPES>} DSL Field interface
+ * @throws {Error} When there is no variant, or the variants do not declare unique discriminator values
+ */
+const createComposition = (
+    keyword: CompositionKeyword,
+    description: string,
+    variants: readonly (DSLField | FIELD_TYPES)[],
+    options: FieldCompositionOptions,
+): DSLField<FIELD_TYPES> => {
+    const { discriminator, example, ...fieldOptions } = options
+    if (variants.length === 0) {
+        throw new Error(`field.${keyword}(): at least one variant is required.`)
+    }
+
+    if (discriminator) {
+        const values = variants.map((variant) => getDiscriminatorValue(variant, discriminator))
+        if (values.some((value) => value === undefined)) {
+            throw new Error(
+                `field.${keyword}(): every variant must declare the discriminator property "${discriminator}" with a string value.`,
+            )
+        }
+        const duplicate = values.find((value, index) => values.indexOf(value) !== index)
+        if (duplicate !== undefined) {
+            throw new Error(
+                `field.${keyword}(): discriminator value "${duplicate}" is used by more than one variant.`,
+            )
+        }
+    }
+
+    const examples = variants.map(toExampleValue)
+    const defaultExample =
+        keyword === "allOf"
+            ? Object.assign({}, ...examples.map((value) => value ?? {}))
+            : examples[0]
+
+    return {
+        ...field(description, example ?? defaultExample, fieldOptions),
+        composition: { keyword, variants, discriminator },
+    }
+}
+
+/**
+ * DSL Helper Functions
+ * - Declares a value that matches exactly one of the variants (e.g. a discriminated union).
+ *   With `discriminator`, the variant is chosen by the value of that property and
+ *   named variants (`field.schema()`) are listed in `discriminator.mapping`.
+ * @param {string} description Field description to be displayed in documentation
+ * @param {(DSLField | FIELD_TYPES)[]} variants Variant shapes
+ * @param {FieldCompositionOptions} options Field options with the discriminator property
+ * @returns {DSLField<FIELD_TYPES>} DSL Field interface
+ * @throws {Error} When a variant does not declare a unique discriminator value
+ */
+field.oneOf = function (
+    description: string,
+    variants: readonly (DSLField | FIELD_TYPES)[],
+    options: FieldCompositionOptions = {},
+): DSLField<FIELD_TYPES> {
+    return createComposition("oneOf", description, variants, options)
+}
+
+/**
+ * DSL Helper Functions
+ * - Declares a value that matches at least one of the variants.
+ * @param {string} description Field description to be displayed in documentation
+ * @param {(DSLField | FIELD_TYPES)[]} variants Variant shapes
+ * @param {FieldCompositionOptions} options Field options with the discriminator property
+ * @returns {DSLField<FIELD_TYPES>} DSL Field interface
+ * @throws {Error} When a variant does not declare a unique discriminator value
+ */
+field.anyOf = function (
+    description: string,
+    variants: readonly (DSLField | FIELD_TYPES)[],
+    options: FieldCompositionOptions = {},
+): DSLField<FIELD_TYPES> {
+    return createComposition("anyOf", description, variants, options)
+}
+
+/**
+ * DSL Helper Functions
+ * - Declares a value that matches all of the variants (e.g. a base shape extended with more properties).
+ * @param {string} description Field description to be displayed in documentation
+ * @param {(DSLField | FIELD_TYPES)[]} variants Variant shapes
+ * @param {Omit<FieldCompositionOptions, "discriminator">} options Field options
+ * @returns {DSLField<FIELD_TYPES>} DSL Field interface
+ */
+field.allOf = function (
+    description: string,
+    variants: readonly (DSLField | FIELD_TYPES)[],
+    options: Omit<FieldCompositionOptions, "discriminator"> = {},
+): DSLField<FIELD_TYPES> {
+    return createComposition("allOf", description, variants, options)
+}
+
+/**
+ * Array matcher type guard
+ * @param {unknown} value Value to check
+ * @returns {boolean} Whether the value is the element matching of an array matcher field
+ */
+export const isArrayMatch = (value: unknown): value is ArrayMatch =>
+    !!value && typeof value === "object" && ARRAY_MATCH in value
+
+/**
+ * Returns the schema name declared with `field.schema()`.
+ * @param {unknown} value Value to check
+ * @returns {string | undefined} Schema name, or undefined when the value is not a named schema
+ */
+export const getSchemaName = (value: unknown): string | undefined =>
+    value && typeof value === "object"
+        ? (value as { [SCHEMA_NAME]?: string })[SCHEMA_NAME]
+        : undefined
+
 /**
  * DSL Field type guard
  * @description
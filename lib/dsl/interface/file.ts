@@ -0,0 +1,83 @@
+/*
+ * Copyright 2025 the original author or authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { DSLRequestFile } from "./field"
+
+export interface FileDescriptor {
+    readonly path?: string
+    readonly buffer?: Buffer
+    readonly stream?: NodeJS.ReadableStream
+    readonly filename?: string
+    readonly contentType?: string
+}
+
+const isReadableStream = (value: unknown): value is NodeJS.ReadableStream =>
+    !!value &&
+    typeof value === "object" &&
+    typeof (value as NodeJS.ReadableStream).pipe === "function"
+
+/**
+ * DSL Helper Functions
+ * - Creates a file part for `req().file()` or `req().form()`.
+ * @param {string} description File description to be displayed in documentation
+ * @param {FileDescriptor} descriptor Exactly one of path | buffer | stream, with optional filename and contentType
+ * @returns {DSLRequestFile} DSL request file
+ * @throws {Error} When the descriptor does not provide exactly one valid file source
+ */
+export function file(description: string, descriptor: FileDescriptor): DSLRequestFile {
+    const source: DSLRequestFile["file"] = {}
+
+    const { path, buffer, stream } = descriptor
+
+    if (path !== undefined) {
+        source.path = path
+    }
+    if (buffer !== undefined) {
+        if (!Buffer.isBuffer(buffer)) {
+            throw new Error("file(): buffer must be a Buffer instance.")
+        }
+        source.buffer = buffer
+    }
+    if (stream !== undefined) {
+        if (!isReadableStream(stream)) {
+            throw new Error("file(): stream must be a readable stream.")
+        }
+        source.stream = stream
+    }
+
+    const providedSources = [source.path, source.buffer, source.stream].filter((value) => value)
+    if (providedSources.length !== 1) {
+        throw new Error("file(): provide exactly one of path | buffer | stream in the descriptor.")
+    }
+
+    const contentType = descriptor.contentType ?? "application/octet-stream"
+
+    return {
+        description,
+        file: source,
+        opts: descriptor.filename
+            ? { contentType, filename: descriptor.filename }
+            : { contentType },
+    }
+}
+
+/**
+ * DSL Request File type guard
+ * @param {unknown} obj Value to check
+ * @returns {boolean} Whether it is a DSL Request File
+ */
+export const isDSLRequestFile = (obj: unknown): obj is DSLRequestFile =>
+    !!obj && typeof obj === "object" && "file" in obj && "opts" in obj && "description" in obj
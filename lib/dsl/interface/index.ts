@@ -16,8 +16,27 @@
 
 import { describeAPI } from "./describeAPI"
 import { itDoc } from "./itDoc"
-import { field, DSLField, DSLRequestFile } from "./field"
+import {
+    field,
+    DSLField,
+    DSLRequestFile,
+    FieldCompositionOptions,
+    FieldMatcherOptions,
+    FieldOptions,
+    FieldValueType,
+} from "./field"
+import { file } from "./file"
 import { ApiDocOptions } from "./ItdocBuilderEntry"
+import { DSLResponseCookie } from "./cookie"
 
-export { describeAPI, itDoc, field }
-export type { ApiDocOptions, DSLField, DSLRequestFile }
+export { describeAPI, itDoc, field, file }
+export type {
+    ApiDocOptions,
+    DSLField,
+    DSLRequestFile,
+    DSLResponseCookie,
+    FieldCompositionOptions,
+    FieldMatcherOptions,
+    FieldOptions,
+    FieldValueType,
+}
@@ -18,16 +18,14 @@
 import { DSLField } from "../interface"
 import { ResponseBuilder } from "./ResponseBuilder"
 import { DSLRequestFile, FIELD_TYPES } from "../interface/field"
+import { file, FileDescriptor } from "../interface/file"
 import { AbstractTestBuilder } from "./AbstractTestBuilder"
+import { QUERY_PARAM_TYPES, REQUEST_BODY_TYPES } from "./TestCaseConfig"
 import logger from "../../config/logger"
+import { getOpenAPISecuritySchemes } from "../../config/getOpenAPIConfig"
 
-interface FileDescriptor {
-    readonly path?: string
-    readonly buffer?: Buffer
-    readonly stream?: NodeJS.ReadableStream
-    readonly filename?: string
-    readonly contentType?: string
-}
+const CONTENT_TYPE_BODY_ONLY =
+    "contentType() applies to body() only. file() and form() set their own Content-Type."
 
 /**
  * Builder class for setting API request information.
@@ -56,7 +54,9 @@ export class RequestBuilder extends AbstractTestBuilder {
 
         this.config.requestHeaders = normalizedHeaders
         if (normalizedHeaders["content-type"]) {
-            throw new Error('You cannot set "Content-Type" header using header().')
+            throw new Error(
+                'You cannot set "Content-Type" header using header(). Use contentType() instead.',
+            )
         }
         return this
     }
@@ -89,53 +89,14 @@ export class RequestBuilder extends AbstractTestBuilder {
             return undefined
         }
 
-        const file: DSLRequestFile["file"] = {}
-
-        const { path, buffer, stream } = descriptor
-
-        if (path !== undefined) {
-            file.path = path
-        }
-        if (buffer !== undefined) {
-            if (!Buffer.isBuffer(buffer)) {
-                throw new Error("req().file(): buffer must be a Buffer instance.")
-            }
-            file.buffer = buffer
-        }
-        if (stream !== undefined) {
-            if (!this.isReadableStream(stream)) {
-                throw new Error("req().file(): stream must be a readable stream.")
-            }
-            file.stream = stream
-        }
-
-        const providedSources = [file.path, file.buffer, file.stream].filter((value) => value)
-        if (providedSources.length !== 1) {
-            throw new Error(
-                "req().file(): provide exactly one of path | buffer | stream in the descriptor.",
-            )
-        }
-
-        const normalizedContentType = descriptor.contentType ?? "application/octet-stream"
-
-        return {
-            description: descriptionOrRequest,
-            file,
-            opts: descriptor.filename
-                ? { contentType: normalizedContentType, filename: descriptor.filename }
-                : { contentType: normalizedContentType },
-        }
-    }
-
-    private isReadableStream(value: unknown): value is NodeJS.ReadableStream {
-        return (
-            !!value &&
-            typeof value === "object" &&
-            typeof (value as NodeJS.ReadableStream).pipe === "function"
-        )
+        return file(descriptionOrRequest, descriptor)
     }
 
     private applyFile(requestFile: DSLRequestFile | undefined): this {
+        if (this.config.requestContentType !== undefined) {
+            throw new Error(CONTENT_TYPE_BODY_ONLY)
+        }
+
         const existingHeaders = this.config.requestHeaders ?? {}
         const hasContentType = Object.keys(existingHeaders).some(
             (key) => key.toLowerCase() === "content-type",
@@ -168,14 +129,15 @@ export class RequestBuilder extends AbstractTestBuilder {
             )
         }
 
-        if (this.config.requestBody) {
+        if (this.config.requestBody || this.config.requestForm) {
             throw new Error(
                 [
-                    "❌ Conflict: request body has already been set using .body().",
+                    "❌ Conflict: request body has already been set using .body() or .form().",
                     "",
-                    "You cannot mix JSON body (.body()) and raw file (.file()) in the same request.",
+                    "You cannot mix JSON body (.body()), form (.form()) and raw file (.file()) in the same request.",
                     "Please choose exactly one of:",
                     "  • req().body(...) → for JSON payloads",
+                    "  • req().form(...) → for multipart/form-data payloads",
                     "  • req().file(...) → for raw binary uploads (application/octet-stream)",
                 ].join("\n"),
             )
@@ -185,27 +147,67 @@ export class RequestBuilder extends AbstractTestBuilder {
         return this
     }
 
+    /**
+     * Sets the media type of the request body set with {@link body()}.
+     * - JSON types (`application/json`, `*+json`) are sent as JSON (default).
+     * - `application/x-www-form-urlencoded` sends the body object as form-encoded pairs.
+     * - NDJSON types (`application/x-ndjson`, `application/jsonl`) send each array element as a JSON line.
+     * - Any other type (`text/plain`, `application/xml`, ...) sends the string body as-is.
+     * @param {string} contentType Media type of the request body
+     * @returns {this} Request builder instance
+     */
+    public contentType(contentType: string): this {
+        if (this.config.requestFile || this.config.requestForm) {
+            throw new Error(CONTENT_TYPE_BODY_ONLY)
+        }
+        this.config.requestContentType = contentType
+        return this
+    }
+
     /**
      * Sets the request body.
-     * @param {Record<string, DSLField<FIELD_TYPES> | FIELD_TYPES>} body Request body
+     * Objects are sent as JSON unless another media type is set with {@link contentType()}.
+     * @param {REQUEST_BODY_TYPES} body Request body
+     * @returns {this} Request builder instance
+     */
+    public body(body: REQUEST_BODY_TYPES): this {
+        this.assertNoRequestBody()
+        this.config.requestBody = body
+        return this
+    }
+
+    /**
+     * Sets the request body as a multipart/form-data form.
+     * Text parts are sent with `.field()` and file parts created with `file()` are sent with `.attach()`.
+     *
+     * The request is mutually exclusive with {@link body()} and {@link file()}.
+     * @param {Record<string, DSLField<FIELD_TYPES> | FIELD_TYPES | DSLRequestFile>} form Form parts keyed by part name
      * @returns {this} Request builder instance
+     * @throws {Error} When a request body or a content type has already been set
      */
-    public body(body: Record<string, DSLField<FIELD_TYPES> | FIELD_TYPES>): this {
-        if (this.config.requestBody || this.config.requestFile) {
+    public form(form: Record<string, DSLField<FIELD_TYPES> | FIELD_TYPES | DSLRequestFile>): this {
+        this.assertNoRequestBody()
+        if (this.config.requestContentType !== undefined) {
+            throw new Error(CONTENT_TYPE_BODY_ONLY)
+        }
+        this.config.requestForm = form
+        return this
+    }
+
+    private assertNoRequestBody(): void {
+        if (this.config.requestBody || this.config.requestFile || this.config.requestForm) {
             throw new Error(
                 [
-                    "❌ Conflict: request body has already been set using .body().",
+                    "❌ Conflict: request body has already been set.",
                     "",
-                    "You cannot mix JSON body (.body()) and raw file (.file()) in the same request.",
+                    "You cannot mix JSON body (.body()), form (.form()) and raw file (.file()) in the same request.",
                     "Please choose exactly one of:",
                     "  • req().body(...) → for JSON payloads",
+                    "  • req().form(...) → for multipart/form-data payloads",
                     "  • req().file(...) → for raw binary uploads (application/octet-stream)",
                 ].join("\n"),
             )
         }
-
-        this.config.requestBody = body
-        return this
     }
 
     /**
@@ -228,6 +230,49 @@ export class RequestBuilder extends AbstractTestBuilder {
         return this
     }
 
+    /**
+     * Sets cookies to be sent in the `Cookie` request header.
+     * @param {Record<string, DSLField | QUERY_PARAM_TYPES>} cookies Cookies to be used in requests
+     * @returns {this} Request builder instance
+     */
+    public cookie(cookies: Record<string, DSLField | QUERY_PARAM_TYPES>): this {
+        this.config.requestCookies = cookies
+        return this
+    }
+
+    /**
+     * Documents the security scheme the request is authorized with.
+     * The scheme must be declared in `itdoc.document.securitySchemes`, and OAuth2 scopes in one of its flows.
+     * Credentials are not sent by this method. Set them with `header()`, `queryParam()` or `cookie()`.
+     * @param {string} scheme Security scheme name
+     * @param {string[]} scopes Scopes the request requires
+     * @returns {this} Request builder instance
+     * @throws {Error} When the scheme or a scope is not declared
+     */
+    public auth(scheme: string, scopes: string[] = []): this {
+        const declared = getOpenAPISecuritySchemes()[scheme]
+        if (!declared) {
+            throw new Error(
+                `req().auth(): security scheme "${scheme}" is not declared in itdoc.document.securitySchemes.`,
+            )
+        }
+
+        if (declared.type === "oauth2") {
+            const declaredScopes = Object.values(declared.flows ?? {}).flatMap((flow) =>
+                Object.keys(flow?.scopes ?? {}),
+            )
+            const undeclared = scopes.filter((scope) => !declaredScopes.includes(scope))
+            if (undeclared.length > 0) {
+                throw new Error(
+                    `req().auth(): scopes ${undeclared.join(", ")} are not declared in the flows of security scheme "${scheme}".`,
+                )
+            }
+        }
+
+        this.config.requestAuth = { scheme, scopes }
+        return this
+    }
+
     /**
      * Creates a ResponseBuilder instance.
      * @returns {ResponseBuilder} Response builder instance
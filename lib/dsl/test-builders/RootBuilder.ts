@@ -29,6 +29,17 @@ export class RootBuilder extends AbstractTestBuilder {
         return this
     }
 
+    /**
+     * Sets whether the test fails when the response body has fields not declared in `res().body()`.
+     * Overrides the `strictResponseBody` setting of the itdoc configuration.
+     * @param {boolean} enabled Whether strict mode is enabled (default: true)
+     * @returns {this} Root builder instance
+     */
+    public strict(enabled: boolean = true): this {
+        this.config.strictResponseBody = enabled
+        return this
+    }
+
     public req(): RequestBuilder {
         return new RequestBuilder(this.config, this.method, this.url, this.app)
     }
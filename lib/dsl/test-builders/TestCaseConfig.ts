@@ -18,9 +18,22 @@ import { HttpStatus } from "../enums"
 import { DSLField } from "../interface"
 import { DSLRequestFile, FIELD_TYPES } from "../interface/field"
 import { ApiDocOptions } from "../interface"
+import { DSLResponseCookie } from "../interface/cookie"
+import { ExpectedTextValue } from "./validateResponse"
 
 export type PATH_PARAM_TYPES = string | number
 export type QUERY_PARAM_TYPES = string | number | boolean
+export type REQUEST_BODY_TYPES =
+    | Record<string, DSLField | FIELD_TYPES>
+    | Array<DSLField | FIELD_TYPES>
+    | string
+
+/**
+ * Non-JSON response body expected with `res().text()`, `res().xml()` or `res().file()`
+ */
+export type ExpectedResponseContent =
+    | { kind: "text" | "xml"; value?: ExpectedTextValue }
+    | { kind: "file"; contentType: string }
 
 /**
  * Defines configuration values set for each test case.
@@ -32,11 +45,25 @@ export interface TestCaseConfig {
     apiOptions?: ApiDocOptions
     pathParams?: Record<string, DSLField<PATH_PARAM_TYPES> | PATH_PARAM_TYPES>
     queryParams?: Record<string, DSLField<QUERY_PARAM_TYPES> | QUERY_PARAM_TYPES>
-    requestBody?: Record<string, DSLField | FIELD_TYPES>
+    requestCookies?: Record<string, DSLField | QUERY_PARAM_TYPES>
+    requestBody?: REQUEST_BODY_TYPES
+    requestContentType?: string
     requestHeaders?: Record<string, DSLField<string> | string>
     requestFile?: DSLRequestFile
+    requestForm?: Record<string, DSLField | FIELD_TYPES | DSLRequestFile>
+    /**
+     * Security scheme declared in the itdoc config and the scopes the request requires
+     */
+    requestAuth?: { scheme: string; scopes: string[] }
     expectedStatus?: HttpStatus | number
-    expectedResponseBody?: Record<string, DSLField>
-    expectedResponseHeaders?: Record<string, DSLField<string> | string>
+    expectedResponseBody?: Record<string, DSLField> | DSLField
+    expectedResponseContent?: ExpectedResponseContent
+    expectedResponseHeaders?: Record<string, DSLField | string | RegExp>
+    expectedResponseCookies?: Record<string, DSLResponseCookie>
     prettyPrint?: boolean
+    /**
+     * Whether undocumented response body fields fail the test.
+     * Falls back to the `strictResponseBody` setting when not set.
+     */
+    strictResponseBody?: boolean
 }
@@ -14,7 +14,289 @@
  * limitations under the License.
  */
 
-import { isDSLField } from "../interface/field"
+import {
+    ArrayMatch,
+    DSLField,
+    FIELD_TYPES,
+    FieldComposition,
+    FieldValueType,
+    getDiscriminatorValue,
+    isDSLField,
+} from "../interface/field"
+import { FORMAT_PATTERNS } from "../generator/builders/schema/constants"
+
+/**
+ * Formats checked against actual values. Other formats are documented only.
+ */
+const FORMAT_VALIDATORS: Record<string, RegExp> = {
+    uuid: FORMAT_PATTERNS.UUID,
+    email: FORMAT_PATTERNS.EMAIL,
+    date: FORMAT_PATTERNS.DATE,
+    "date-time": FORMAT_PATTERNS.DATE_TIME,
+    uri: FORMAT_PATTERNS.URI,
+    ipv4: FORMAT_PATTERNS.IPV4,
+    ipv6: FORMAT_PATTERNS.IPV6,
+}
+
+const TYPE_CHECKERS: Record<FieldValueType, (value: unknown) => boolean> = {
+    string: (value) => typeof value === "string",
+    number: (value) => typeof value === "number",
+    integer: (value) => Number.isInteger(value),
+    boolean: (value) => typeof value === "boolean",
+    object: (value) => !!value && typeof value === "object" && !Array.isArray(value),
+    array: (value) => Array.isArray(value),
+}
+
+/**
+ * Function that checks the schema constraints declared with field() options.
+ * @param {DSLField} expectedDSL Expected DSL field
+ * @param {unknown} actualVal Actual response value
+ * @param {string} subject What is being validated (e.g. `response body[id]`)
+ * @throws {Error} Throws an error when a constraint is violated.
+ */
+const validateConstraints = (expectedDSL: DSLField, actualVal: unknown, subject: string): void => {
+    const fail = (reason: string): never => {
+        throw new Error(`Expected ${subject} ${reason} but got ${JSON.stringify(actualVal)}`)
+    }
+
+    if (actualVal === null) {
+        if (expectedDSL.nullable) {
+            return
+        }
+        if (expectedDSL.nullable === false) {
+            fail("not to be null")
+        }
+    }
+
+    if (expectedDSL.enum && !expectedDSL.enum.some((value) => value === actualVal)) {
+        fail(`to be one of ${JSON.stringify(expectedDSL.enum)}`)
+    }
+
+    if (typeof actualVal === "number") {
+        if (expectedDSL.minimum !== undefined && actualVal < expectedDSL.minimum) {
+            fail(`to be >= ${expectedDSL.minimum}`)
+        }
+        if (expectedDSL.maximum !== undefined && actualVal > expectedDSL.maximum) {
+            fail(`to be <= ${expectedDSL.maximum}`)
+        }
+    }
+
+    if (typeof actualVal === "string") {
+        if (expectedDSL.minLength !== undefined && actualVal.length < expectedDSL.minLength) {
+            fail(`to have at least ${expectedDSL.minLength} characters`)
+        }
+        if (expectedDSL.maxLength !== undefined && actualVal.length > expectedDSL.maxLength) {
+            fail(`to have at most ${expectedDSL.maxLength} characters`)
+        }
+        if (expectedDSL.pattern && !new RegExp(expectedDSL.pattern).test(actualVal)) {
+            fail(`to match ${expectedDSL.pattern}`)
+        }
+        const formatPattern = expectedDSL.format ? FORMAT_VALIDATORS[expectedDSL.format] : undefined
+        if (formatPattern && !formatPattern.test(actualVal)) {
+            fail(`to be in ${expectedDSL.format} format`)
+        }
+    }
+
+    if (Array.isArray(actualVal)) {
+        if (expectedDSL.minItems !== undefined && actualVal.length < expectedDSL.minItems) {
+            fail(`to have at least ${expectedDSL.minItems} items`)
+        }
+        if (expectedDSL.maxItems !== undefined && actualVal.length > expectedDSL.maxItems) {
+            fail(`to have at most ${expectedDSL.maxItems} items`)
+        }
+    }
+}
+
+/**
+ * Function that checks the value type declared with the field matchers.
+ * @param {FieldValueType} type Declared value type
+ * @param {unknown} actualVal Actual response value
+ * @param {string} path Current path being validated
+ * @throws {Error} Throws an error when the value is not of the declared type.
+ * @see {@link import('../interface/field.ts').field.any}
+ */
+const validateType = (type: FieldValueType, actualVal: unknown, path: string): void => {
+    if (!TYPE_CHECKERS[type](actualVal)) {
+        throw new Error(
+            `Expected response body[${path}] to be of type ${type} but got ${JSON.stringify(actualVal)}`,
+        )
+    }
+}
+
+/**
+ * Function that validates an expected value that may itself be a DSL field.
+ * @param {unknown} expected Expected value
+ * @param {unknown} actual Actual response value
+ * @param {string} path Current path being validated
+ * @throws {Error} Throws an error when validation fails.
+ */
+const validateValue = (expected: unknown, actual: unknown, path: string): void => {
+    if (isDSLField(expected)) {
+        validateDSLField(expected, actual, path)
+    } else {
+        validateResponse(expected, actual, path)
+    }
+}
+
+/**
+ * Returns whether the actual value matches the expected value.
+ * @param {unknown} expected Expected value
+ * @param {unknown} actual Actual response value
+ * @returns {boolean} Whether validation passes
+ */
+const matchesValue = (expected: unknown, actual: unknown): boolean => {
+    try {
+        validateValue(expected, actual, "")
+        return true
+    } catch {
+        return false
+    }
+}
+
+/**
+ * Result of pairing the expected elements of `field.contains()` or `field.unordered()`
+ * with the actual array elements.
+ */
+interface ElementAssignment {
+    /** Index of the expected element paired with each actual element, or -1 when unpaired */
+    readonly owners: number[]
+    /** Index of the first expected element left without a distinct actual element */
+    readonly unmatched?: number
+}
+
+/**
+ * Pairs every expected element with a distinct actual element it matches.
+ * Uses augmenting paths (bipartite matching), so a loose matcher such as `field.any()`
+ * gives up an element when a stricter expected element can match nothing else.
+ * @param {unknown[]} elements Expected elements
+ * @param {unknown[]} actualArr Actual response value (array)
+ * @returns {ElementAssignment} Pairing of the actual elements
+ */
+const assignArrayElements = (
+    elements: readonly unknown[],
+    actualArr: unknown[],
+): ElementAssignment => {
+    const candidates = elements.map((expected) =>
+        actualArr.flatMap((actual, index) => (matchesValue(expected, actual) ? [index] : [])),
+    )
+    const owners = actualArr.map(() => -1)
+
+    const assign = (expectedIndex: number, visited: Set<number>): boolean =>
+        candidates[expectedIndex].some((actualIndex) => {
+            if (visited.has(actualIndex)) {
+                return false
+            }
+            visited.add(actualIndex)
+            if (owners[actualIndex] === -1 || assign(owners[actualIndex], visited)) {
+                owners[actualIndex] = expectedIndex
+                return true
+            }
+            return false
+        })
+
+    const unmatched = elements.findIndex((_, index) => !assign(index, new Set()))
+    return { owners, unmatched: unmatched === -1 ? undefined : unmatched }
+}
+
+/**
+ * Function that validates the elements of an array matcher field.
+ * @param {ArrayMatch} arrayMatch Element matching declared with field.each(), field.contains() or field.unordered()
+ * @param {unknown[]} actualArr Actual response value (array)
+ * @param {string} path Current path being validated
+ * @throws {Error} Throws an error when validation fails.
+ */
+const validateArrayMatch = (arrayMatch: ArrayMatch, actualArr: unknown[], path: string): void => {
+    const { mode, elements } = arrayMatch
+
+    if (mode === "each") {
+        actualArr.forEach((elem, index) => {
+            validateValue(elements[0], elem, `${path}[${index}]`)
+        })
+        return
+    }
+
+    if (mode === "unordered" && elements.length !== actualArr.length) {
+        throw new Error(
+            `Expected response body[${path}] to have length ${elements.length} but got ${actualArr.length}`,
+        )
+    }
+
+    const { unmatched } = assignArrayElements(elements, actualArr)
+    if (unmatched !== undefined) {
+        throw new Error(
+            `Expected response body[${path}] to contain an element matching the expected element [${unmatched}] but got ${JSON.stringify(actualArr)}`,
+        )
+    }
+}
+
+/**
+ * Returns a property of a response value, or undefined when the value is not an object.
+ * @param {unknown} value Response value
+ * @param {string} key Property name
+ * @returns {unknown} Property value
+ */
+const propertyOf = (value: unknown, key: string): unknown =>
+    value && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined
+
+/**
+ * Returns the variant a value is documented by, chosen by its discriminator value
+ * or, without a discriminator, the first variant it matches.
+ * @param {FieldComposition} composition Variants declared with field.oneOf() or field.anyOf()
+ * @param {unknown} actualVal Actual response value
+ * @returns {DSLField | FIELD_TYPES | undefined} Matching variant, or undefined when none matches
+ */
+const findMatchingVariant = (
+    composition: FieldComposition,
+    actualVal: unknown,
+): DSLField | FIELD_TYPES | undefined => {
+    const { variants, discriminator } = composition
+    if (discriminator) {
+        const value = propertyOf(actualVal, discriminator)
+        return variants.find((variant) => getDiscriminatorValue(variant, discriminator) === value)
+    }
+    return variants.find((variant) => matchesValue(variant, actualVal))
+}
+
+/**
+ * Function that validates the variants of a polymorphic field.
+ * @param {FieldComposition} composition Variants declared with field.oneOf(), field.anyOf() or field.allOf()
+ * @param {unknown} actualVal Actual response value
+ * @param {string} path Current path being validated
+ * @throws {Error} Throws an error when validation fails.
+ */
+const validateComposition = (
+    composition: FieldComposition,
+    actualVal: unknown,
+    path: string,
+): void => {
+    const { keyword, variants, discriminator } = composition
+
+    if (keyword === "allOf") {
+        variants.forEach((variant) => validateValue(variant, actualVal, path))
+        return
+    }
+
+    if (discriminator) {
+        const variant = findMatchingVariant(composition, actualVal)
+        if (variant === undefined) {
+            const values = variants.map((variant) => getDiscriminatorValue(variant, discriminator))
+            const propertyPath = path ? `${path}.${discriminator}` : discriminator
+            throw new Error(
+                `Expected response body[${propertyPath}] to be one of ${JSON.stringify(values)} but got ${JSON.stringify(propertyOf(actualVal, discriminator))}`,
+            )
+        }
+        validateValue(variant, actualVal, path)
+        return
+    }
+
+    const matched = variants.filter((variant) => matchesValue(variant, actualVal)).length
+    if (keyword === "oneOf" ? matched !== 1 : matched === 0) {
+        const expectation = keyword === "oneOf" ? "exactly one" : "at least one"
+        throw new Error(
+            `Expected response body[${path}] to match ${expectation} of the ${keyword} variants but it matched ${matched}`,
+        )
+    }
+}
 
 /**
  * Function that performs validation when the expected response is a field.
@@ -25,6 +307,32 @@ import { isDSLField } from "../interface/field"
  * @see {@link import('../interface/field.ts').field}
  */
 const validateDSLField = (expectedDSL: any, actualVal: any, path: string): void => {
+    if (!isDSLField(actualVal)) {
+        if (actualVal === undefined && expectedDSL.required === false) {
+            return
+        }
+        validateConstraints(expectedDSL, actualVal, `response body[${path}]`)
+        if (expectedDSL.items !== undefined && Array.isArray(actualVal)) {
+            actualVal.forEach((elem, index) => {
+                validateValue(expectedDSL.items, elem, `${path}[${index}]`)
+            })
+        }
+        if (actualVal === null && expectedDSL.nullable) {
+            return
+        }
+        if (expectedDSL.type) {
+            validateType(expectedDSL.type, actualVal, path)
+            if (expectedDSL.arrayMatch) {
+                validateArrayMatch(expectedDSL.arrayMatch, actualVal, path)
+            }
+            return
+        }
+        if (expectedDSL.composition) {
+            validateComposition(expectedDSL.composition, actualVal, path)
+            return
+        }
+    }
+
     const example = expectedDSL.example
     if (example === undefined) {
         throw new Error(
@@ -79,7 +387,7 @@ const validateArray = (expectedArr: any[], actualArr: any[], path: string): void
         )
     }
     expectedArr.forEach((elem, index) => {
-        validateResponse(elem, actualArr[index], `${path}[${index}]`)
+        validateValue(elem, actualArr[index], `${path}[${index}]`)
     })
 }
 
@@ -107,6 +415,12 @@ const validateFunction = (func: (actualValue: any) => any, actualVal: any): void
  * @see {ResponseBuilder}
  */
 export const validateResponse = (expected: any, actual: any, path: string = ""): void => {
+    // 응답 본문 전체가 DSL Field인 경우 (e.g. field.oneOf())
+    if (isDSLField(expected)) {
+        validateDSLField(expected, actual, path)
+        return
+    }
+
     // 배열인 경우
     if (Array.isArray(expected)) {
         validateArray(expected, actual, path)
@@ -147,3 +461,210 @@ export const validateResponse = (expected: any, actual: any, path: string = ""):
         throw new Error(`Expected response body[${path}] to be ${expected} but got ${actual}`)
     }
 }
+
+/**
+ * Expected value of a response part carried as text (a header or a non-JSON body).
+ * - A string is compared for equality.
+ * - A RegExp must match the value.
+ * - A DSL field is checked against its constraints (e.g. `field.matches()`),
+ *   its validator function, or its example when neither is declared.
+ */
+export type ExpectedTextValue = DSLField | string | RegExp
+
+/**
+ * Converters from text to the scalar types a header can be declared with (e.g. `field.any("limit", "integer")`).
+ * A converter returns undefined when the text does not hold a value of that type.
+ */
+const TEXT_CONVERTERS: Partial<Record<FieldValueType, (text: string) => unknown>> = {
+    integer: (text) => (text.trim() !== "" ? Number(text) : undefined),
+    number: (text) => (text.trim() !== "" ? Number(text) : undefined),
+    boolean: (text) => (text === "true" ? true : text === "false" ? false : undefined),
+}
+
+/**
+ * Function that converts a text value to the scalar type declared on the field,
+ * so its type and numeric constraints are checked like those of a body field.
+ * @param {string} subject What is being validated (e.g. `response header "ETag"`)
+ * @param {DSLField} expected Expected DSL field
+ * @param {unknown} actualVal Actual value
+ * @returns {unknown} Converted value, or the actual value when the field declares no scalar type
+ * @throws {Error} Throws an error when the text is not of the declared type.
+ */
+const convertTextValue = (subject: string, expected: DSLField, actualVal: unknown): unknown => {
+    const { type } = expected
+    const convert = type ? TEXT_CONVERTERS[type] : undefined
+    if (!type || !convert || typeof actualVal !== "string") {
+        return actualVal
+    }
+    const value = convert(actualVal)
+    if (value === undefined || !TYPE_CHECKERS[type](value)) {
+        throw new Error(`Expected ${subject} to be of type ${type}, but got "${actualVal}"`)
+    }
+    return value
+}
+
+/**
+ * Function that validates a value carried as text.
+ * @param {string} subject What is being validated (e.g. `response header "ETag"`)
+ * @param {ExpectedTextValue} expected Expected value
+ * @param {unknown} actualVal Actual value
+ * @throws {Error} Throws an error when validation fails.
+ */
+const validateTextValue = (
+    subject: string,
+    expected: ExpectedTextValue,
+    actualVal: unknown,
+): void => {
+    if (expected instanceof RegExp) {
+        if (typeof actualVal !== "string" || !expected.test(actualVal)) {
+            throw new Error(`Expected ${subject} to match ${expected}, but got "${actualVal}"`)
+        }
+        return
+    }
+
+    if (!isDSLField(expected)) {
+        if (expected !== actualVal) {
+            throw new Error(`Expected ${subject} to be "${expected}", but got "${actualVal}"`)
+        }
+        return
+    }
+
+    validateConstraints(expected, convertTextValue(subject, expected, actualVal), subject)
+    if (typeof expected.example === "function") {
+        validateFunction(expected.example, actualVal)
+    } else if (!expected.type && String(expected.example) !== actualVal) {
+        throw new Error(`Expected ${subject} to be "${expected.example}", but got "${actualVal}"`)
+    }
+}
+
+/**
+ * Function that validates a response header value.
+ * @param {string} name Header name
+ * @param {ExpectedTextValue} expected Expected header value
+ * @param {unknown} actual Actual header value
+ * @throws {Error} Throws an error when validation fails.
+ */
+export const validateResponseHeader = (
+    name: string,
+    expected: ExpectedTextValue,
+    actual: unknown,
+): void => {
+    const subject = `response header "${name}"`
+    const actualVal = Array.isArray(actual) ? actual.join(", ") : actual
+
+    if (actualVal === undefined && isDSLField(expected)) {
+        if (expected.required === false) {
+            return
+        }
+        throw new Error(`Expected ${subject} to be present, but it was missing`)
+    }
+
+    validateTextValue(subject, expected, actualVal)
+}
+
+/**
+ * Function that validates a non-JSON response body (text, HTML, XML) set with `res().text()` or `res().xml()`.
+ * @param {ExpectedTextValue} expected Expected body
+ * @param {string} actual Actual response body text
+ * @throws {Error} Throws an error when validation fails.
+ */
+export const validateResponseText = (expected: ExpectedTextValue, actual: string): void => {
+    validateTextValue("response body", expected, actual)
+}
+
+/**
+ * Function that collects the paths of response body fields that are not declared in the expected response.
+ * Fields declared with a type-only matcher (e.g. `field.any("Profile", "object")`) or a validator function
+ * accept any content and are not descended into.
+ * @param {unknown} expected Expected response value
+ * @param {unknown} actual Actual response value
+ * @param {string} path Current path being checked (used in recursive calls)
+ * @returns {string[]} Paths of undocumented fields
+ */
+export const findUndocumentedFields = (
+    expected: unknown,
+    actual: unknown,
+    path: string = "",
+): string[] => {
+    if (!actual || typeof actual !== "object") {
+        return []
+    }
+
+    if (isDSLField(expected)) {
+        if (expected.arrayMatch && Array.isArray(actual)) {
+            const { mode, elements } = expected.arrayMatch
+            const { owners } =
+                mode === "each" ? { owners: [] } : assignArrayElements(elements, actual)
+            return actual.flatMap((elem, index) => {
+                const matched =
+                    mode === "each"
+                        ? elements[0]
+                        : owners[index] >= 0
+                          ? elements[owners[index]]
+                          : elements.find((element) => matchesValue(element, elem))
+                return matched === undefined
+                    ? []
+                    : findUndocumentedFields(matched, elem, `${path}[${index}]`)
+            })
+        }
+        if (expected.items !== undefined && Array.isArray(actual)) {
+            return actual.flatMap((elem, index) =>
+                findUndocumentedFields(expected.items, elem, `${path}[${index}]`),
+            )
+        }
+        if (expected.composition) {
+            if (expected.composition.keyword === "allOf") {
+                // 어느 variant에도 선언되지 않은 필드만 문서화되지 않은 필드로 본다
+                const [first, ...rest] = expected.composition.variants.map((variant: unknown) =>
+                    findUndocumentedFields(variant, actual, path),
+                )
+                return first.filter((fieldPath: string) =>
+                    rest.every((paths: string[]) => paths.includes(fieldPath)),
+                )
+            }
+            const variant = findMatchingVariant(expected.composition, actual)
+            return variant === undefined ? [] : findUndocumentedFields(variant, actual, path)
+        }
+        if (expected.type || typeof expected.example === "function") {
+            return []
+        }
+        return findUndocumentedFields(expected.example, actual, path)
+    }
+
+    if (Array.isArray(expected)) {
+        if (!Array.isArray(actual)) {
+            return []
+        }
+        return actual.flatMap((elem, index) =>
+            index < expected.length
+                ? findUndocumentedFields(expected[index], elem, `${path}[${index}]`)
+                : [],
+        )
+    }
+
+    if (!expected || typeof expected !== "object" || Array.isArray(actual)) {
+        return []
+    }
+
+    return Object.entries(actual).flatMap(([key, actualVal]) => {
+        const currentPath = path ? `${path}.${key}` : key
+        return key in expected
+            ? findUndocumentedFields(propertyOf(expected, key), actualVal, currentPath)
+            : [currentPath]
+    })
+}
+
+/**
+ * Function that fails when the response body has fields not declared in the expected response (strict mode).
+ * @param {unknown} expected Expected response value
+ * @param {unknown} actual Actual response value
+ * @throws {Error} Throws an error listing the undocumented field paths.
+ */
+export const validateNoUndocumentedFields = (expected: unknown, actual: unknown): void => {
+    const undocumented = findUndocumentedFields(expected, actual)
+    if (undocumented.length > 0) {
+        throw new Error(
+            `Response body has fields that are not documented in res().body(): ${undocumented.join(", ")}`,
+        )
+    }
+}
@@ -0,0 +1,102 @@
+/*
+ * Copyright 2025 the original author or authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+export interface ParsedSetCookie {
+    name: string
+    value: string
+    httpOnly: boolean
+    secure: boolean
+    sameSite?: string
+    maxAge?: number
+    path?: string
+    domain?: string
+    expires?: string
+}
+
+/**
+ * Parses a single `Set-Cookie` header value.
+ * @param {string} header `Set-Cookie` header value (e.g. `session=abc; Path=/; HttpOnly`)
+ * @returns {ParsedSetCookie} Parsed cookie name, value and attributes
+ */
+export function parseSetCookie(header: string): ParsedSetCookie {
+    const [pair, ...attributes] = header.split(";").map((part) => part.trim())
+    const separatorIndex = pair.indexOf("=")
+    const cookie: ParsedSetCookie = {
+        name: separatorIndex === -1 ? pair : pair.slice(0, separatorIndex),
+        value: separatorIndex === -1 ? "" : decodeCookieValue(pair.slice(separatorIndex + 1)),
+        httpOnly: false,
+        secure: false,
+    }
+
+    for (const attribute of attributes) {
+        const [rawKey, ...rest] = attribute.split("=")
+        const value = rest.join("=")
+        switch (rawKey.trim().toLowerCase()) {
+            case "httponly":
+                cookie.httpOnly = true
+                break
+            case "secure":
+                cookie.secure = true
+                break
+            case "samesite":
+                cookie.sameSite = value
+                break
+            case "max-age":
+                cookie.maxAge = Number(value)
+                break
+            case "path":
+                cookie.path = value
+                break
+            case "domain":
+                cookie.domain = value
+                break
+            case "expires":
+                cookie.expires = value
+                break
+        }
+    }
+
+    return cookie
+}
+
+/**
+ * Serializes cookies into a `Cookie` request header value. Cookies without a value are left out.
+ * @param {Record<string, unknown>} cookies Cookie values keyed by name
+ * @returns {string} `Cookie` header value (e.g. `a=1; b=2`)
+ * @throws {Error} When a cookie value is not a string, number or boolean
+ */
+export function serializeCookies(cookies: Record<string, unknown>): string {
+    return Object.entries(cookies)
+        .filter(([, value]) => value !== undefined)
+        .map(([name, value]) => {
+            if (!["string", "number", "boolean"].includes(typeof value)) {
+                throw new Error(
+                    `Cookie "${name}" must be a string, number or boolean, but got ${typeof value}.`,
+                )
+            }
+            return `${name}=${encodeURIComponent(String(value))}`
+        })
+        .join("; ")
+}
+
+const decodeCookieValue = (value: string): string => {
+    const unquoted = value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1) : value
+    try {
+        return decodeURIComponent(unquoted)
+    } catch {
+        return unquoted
+    }
+}
@@ -0,0 +1,73 @@
+/*
+ * Copyright 2025 the original author or authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Strips parameters (e.g. `; charset=utf-8`) and lowercases a media type.
+ * @param {string} mediaType Media type, possibly with parameters
+ * @returns {string} Bare media type
+ */
+export function getBaseMediaType(mediaType: string): string {
+    return mediaType.split(";")[0].trim().toLowerCase()
+}
+
+/**
+ * Checks if the media type carries JSON (`application/json` or a `+json` suffix type).
+ * @param {string} mediaType Media type to check
+ * @returns {boolean} Whether the media type is JSON
+ */
+export function isJsonMediaType(mediaType: string): boolean {
+    const base = getBaseMediaType(mediaType)
+    return base === "application/json" || base.endsWith("+json")
+}
+
+/**
+ * Checks if the media type carries newline-delimited JSON.
+ * @param {string} mediaType Media type to check
+ * @returns {boolean} Whether the media type is NDJSON
+ */
+export function isNdjsonMediaType(mediaType: string): boolean {
+    return ["application/x-ndjson", "application/ndjson", "application/jsonl"].includes(
+        getBaseMediaType(mediaType),
+    )
+}
+
+/**
+ * Checks if the media type is `application/x-www-form-urlencoded`.
+ * @param {string} mediaType Media type to check
+ * @returns {boolean} Whether the media type is form-urlencoded
+ */
+export function isFormUrlEncodedMediaType(mediaType: string): boolean {
+    return getBaseMediaType(mediaType) === "application/x-www-form-urlencoded"
+}
+
+/**
+ * Checks if the media type is the RFC 7807 `application/problem+json`.
+ * @param {string} mediaType Media type to check
+ * @returns {boolean} Whether the media type is problem+json
+ */
+export function isProblemJsonMediaType(mediaType: string): boolean {
+    return getBaseMediaType(mediaType) === "application/problem+json"
+}
+
+/**
+ * Checks if the media type carries XML (`application/xml`, `text/xml` or a `+xml` suffix type).
+ * @param {string} mediaType Media type to check
+ * @returns {boolean} Whether the media type is XML
+ */
+export function isXmlMediaType(mediaType: string): boolean {
+    const base = getBaseMediaType(mediaType)
+    return base === "application/xml" || base === "text/xml" || base.endsWith("+xml")
+}